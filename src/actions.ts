@@ -1,5 +1,220 @@
 import type { ModuleInstance } from './main.js'
+import { buildDomainOption, optionDomain } from './feedbacks.js'
+import { ManagementId, type ManagementIdName } from './management.js'
+import type { ManagementTarget } from './ptpv2.js'
+
+const managementChoices: { id: ManagementIdName | 'all'; label: string }[] = [
+	{ id: 'all', label: 'All' },
+	{ id: 'DefaultDataSet', label: 'DEFAULT_DATA_SET' },
+	{ id: 'CurrentDataSet', label: 'CURRENT_DATA_SET' },
+	{ id: 'ParentDataSet', label: 'PARENT_DATA_SET' },
+	{ id: 'TimePropertiesDataSet', label: 'TIME_PROPERTIES_DATA_SET' },
+	{ id: 'PortDataSet', label: 'PORT_DATA_SET' },
+	{ id: 'ClockDescription', label: 'CLOCK_DESCRIPTION' },
+	{ id: 'UserDescription', label: 'USER_DESCRIPTION' },
+]
 
 export function UpdateActions(self: ModuleInstance): void {
-	self.setActionDefinitions({})
+	const domainOption = buildDomainOption(self)
+	self.setActionDefinitions({
+		measureNow: {
+			name: 'Measure Now',
+			description: 'Send a Delay_Req (or Pdelay_Req) on the next Sync instead of waiting for the Sync Interval',
+			options: [domainOption],
+			callback: (action) => {
+				const domain = optionDomain(self, action.options)
+				if (!self.client.requestMeasurement(domain)) self.log('warn', `Domain ${domain} is not monitored`)
+			},
+		},
+		resetStatistics: {
+			name: 'Reset Statistics',
+			description: 'Clear the offset and path delay statistics and the message counters',
+			options: [],
+			callback: () => {
+				self.client.resetStatistics()
+				self.log('info', 'Statistics reset')
+			},
+		},
+		resetMaster: {
+			name: 'Reset Master',
+			description: 'Forget the master and its grandmaster, the next Sync selects a master again',
+			options: [domainOption],
+			callback: (action) => {
+				const domain = optionDomain(self, action.options)
+				self.client.resetMaster(domain)
+				self.log('info', `Master of domain ${domain} reset`)
+			},
+		},
+		switchDomain: {
+			name: 'Switch Primary Domain',
+			options: [
+				{
+					id: 'domain',
+					type: 'number',
+					label: 'Domain',
+					default: 0,
+					min: 0,
+					max: 127,
+				},
+			],
+			callback: (action) => {
+				self.switchDomain(Number(action.options.domain))
+			},
+		},
+		pause: {
+			name: 'Pause / Resume Monitoring',
+			options: [
+				{
+					id: 'mode',
+					type: 'dropdown',
+					label: 'Mode',
+					choices: [
+						{ id: 'pause', label: 'Pause' },
+						{ id: 'resume', label: 'Resume' },
+						{ id: 'toggle', label: 'Toggle' },
+					],
+					default: 'toggle',
+				},
+			],
+			callback: (action) => {
+				const mode = action.options.mode
+				self.setPaused(mode == 'toggle' ? !self.client.is_paused : mode == 'pause')
+			},
+		},
+		clearDomains: {
+			name: 'Clear Discovered Domains',
+			options: [],
+			callback: () => {
+				self.client.clearDomains()
+				self.log('info', 'Discovered domains cleared')
+			},
+		},
+		approveMaster: {
+			name: 'Approve Master',
+			description: 'Add the current master, or every rogue master, to the Known Clocks of the config',
+			options: [
+				{
+					id: 'clocks',
+					type: 'dropdown',
+					label: 'Clocks',
+					choices: [
+						{ id: 'master', label: 'Current master of the domain' },
+						{ id: 'rogues', label: 'All rogue masters' },
+					],
+					default: 'master',
+				},
+				{ ...domainOption, isVisibleExpression: `$(options:clocks) == 'master'` },
+			],
+			callback: (action) => {
+				self.approveMaster(optionDomain(self, action.options), action.options.clocks == 'rogues')
+			},
+		},
+		clearRogueMasters: {
+			name: 'Clear Rogue Master Alarms',
+			description:
+				'Drop the alarms without approving the clocks, they are reported again on their next Sync or Announce',
+			options: [],
+			callback: () => {
+				self.clearRogueMasters()
+			},
+		},
+		logForeignMasters: {
+			name: 'Log Foreign Master Table',
+			options: [],
+			callback: () => {
+				self.logForeignMasters()
+			},
+		},
+		exportHistory: {
+			name: 'Export Event History',
+			description: 'Write the event history to a file in the Event History Export Directory',
+			options: [
+				{
+					id: 'format',
+					type: 'dropdown',
+					label: 'Format',
+					choices: [
+						{ id: 'json', label: 'JSON' },
+						{ id: 'csv', label: 'CSV' },
+					],
+					default: 'csv',
+				},
+			],
+			callback: async (action) => {
+				await self.exportHistory(action.options.format == 'json' ? 'json' : 'csv')
+			},
+		},
+		clearHistory: {
+			name: 'Clear Event History',
+			description: 'Forget the event history and restart its counters',
+			options: [],
+			callback: () => {
+				self.clearHistory()
+			},
+		},
+		managementGet: {
+			name: 'Management GET',
+			description: 'Read a dataset with a PTP management message, the responses are stored in the Management variables',
+			options: [
+				{
+					id: 'dataset',
+					type: 'dropdown',
+					label: 'Dataset',
+					choices: managementChoices,
+					default: 'all',
+				},
+				{
+					id: 'target',
+					type: 'dropdown',
+					label: 'Target',
+					choices: [
+						{ id: 'all', label: 'All clocks' },
+						{ id: 'master', label: 'PTP master' },
+						{ id: 'custom', label: 'Port identity / address' },
+					],
+					default: 'master',
+				},
+				{
+					id: 'portIdentity',
+					type: 'textinput',
+					label: 'Port Identity',
+					tooltip: 'e.g. aa-bb-cc-ff-fe-dd-ee-ff:1, leave empty for all clocks',
+					default: '',
+					isVisibleExpression: `$(options:target) == 'custom'`,
+				},
+				{
+					id: 'address',
+					type: 'textinput',
+					label: 'Address',
+					tooltip: 'Leave empty to send to the multicast group of the domain',
+					default: '',
+					isVisibleExpression: `$(options:target) == 'custom'`,
+				},
+			],
+			callback: (action) => {
+				let target: ManagementTarget = {}
+				if (action.options.target == 'master') {
+					const [portIdentity, address] = self.client.ptp_master
+					if (portIdentity == '') {
+						self.log('warn', 'Management GET: no PTP master')
+						return
+					}
+					target = { portIdentity, address }
+				} else if (action.options.target == 'custom') {
+					target = {
+						portIdentity: action.options.portIdentity?.toString().trim(),
+						address: action.options.address?.toString().trim(),
+					}
+				}
+				const dataset = action.options.dataset as ManagementIdName | 'all'
+				const managementIds = dataset == 'all' ? Object.values(ManagementId) : [ManagementId[dataset]]
+				for (const managementId of managementIds) {
+					if (!self.client.sendManagementGet(managementId, target)) {
+						self.log('warn', `Management GET: invalid port identity ${target.portIdentity}`)
+						return
+					}
+				}
+			},
+		},
+	})
 }
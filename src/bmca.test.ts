@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import { BestMasterClock, compareForeignMasters, type ForeignMaster } from './bmca.js'
+import type { GrandmasterDataset } from './messages.js'
+
+const makeDataset = (opts: Partial<GrandmasterDataset> = {}): GrandmasterDataset => ({
+	grandmasterIdentity: '00-00-00-00-00-00-00-01',
+	priority1: 128,
+	priority2: 128,
+	clockClass: 248,
+	clockAccuracy: 0xfe,
+	offsetScaledLogVariance: 0xffff,
+	stepsRemoved: 0,
+	currentUtcOffset: 37,
+	currentUtcOffsetValid: true,
+	ptpTimescale: true,
+	timeSource: 0xa0,
+	...opts,
+})
+
+const makeForeignMaster = (source: string, opts: Partial<GrandmasterDataset> = {}): ForeignMaster => ({
+	source,
+	address: '192.168.1.1',
+	dataset: makeDataset(opts),
+	announceCount: 2,
+	announceInterval: 1000,
+	lastSeen: 0,
+})
+
+// ===========================================================================
+// Dataset comparison
+// ===========================================================================
+describe('compareForeignMasters', () => {
+	it.each([
+		['priority1', { priority1: 127 }],
+		['clockClass', { clockClass: 6 }],
+		['clockAccuracy', { clockAccuracy: 0x21 }],
+		['offsetScaledLogVariance', { offsetScaledLogVariance: 0x4e5d }],
+		['priority2', { priority2: 127 }],
+	])('decides on %s', (attribute, better) => {
+		const a = makeForeignMaster('a:1', { grandmasterIdentity: '00-00-00-00-00-00-00-02', ...better })
+		const b = makeForeignMaster('b:1')
+		expect(compareForeignMasters(a, b)).toEqual({ result: expect.any(Number), attribute })
+		expect(compareForeignMasters(a, b).result).toBeLessThan(0)
+		expect(compareForeignMasters(b, a).result).toBeGreaterThan(0)
+	})
+
+	it('evaluates priority1 before clockClass', () => {
+		const a = makeForeignMaster('a:1', { grandmasterIdentity: '00-00-00-00-00-00-00-02', priority1: 1 })
+		const b = makeForeignMaster('b:1', { clockClass: 6 })
+		expect(compareForeignMasters(a, b).result).toBeLessThan(0)
+		expect(compareForeignMasters(a, b).attribute).toBe('priority1')
+	})
+
+	it('falls back to the grandmaster identity', () => {
+		const a = makeForeignMaster('a:1', { grandmasterIdentity: '00-00-00-00-00-00-00-02' })
+		const b = makeForeignMaster('b:1')
+		expect(compareForeignMasters(a, b)).toEqual({ result: 1, attribute: 'grandmasterIdentity' })
+	})
+
+	it('prefers fewer stepsRemoved for the same grandmaster', () => {
+		const a = makeForeignMaster('a:1', { stepsRemoved: 2 })
+		const b = makeForeignMaster('b:1', { stepsRemoved: 1 })
+		expect(compareForeignMasters(a, b).result).toBeGreaterThan(0)
+		expect(compareForeignMasters(a, b).attribute).toBe('stepsRemoved')
+	})
+})
+
+// ===========================================================================
+// Foreign master dataset
+// ===========================================================================
+describe('BestMasterClock', () => {
+	it('qualifies a foreign master after two announces', () => {
+		const bmca = new BestMasterClock()
+		expect(bmca.update('a:1', '10.0.0.1', makeDataset(), 0, 0)).toBe(false)
+		expect(bmca.best).toBeUndefined()
+		expect(bmca.update('a:1', '10.0.0.1', makeDataset(), 0, 1000)).toBe(true)
+		expect(bmca.best?.source).toBe('a:1')
+		expect(bmca.decidingAttribute).toBe('only candidate')
+	})
+
+	it('ranks the better master first and reports the deciding attribute', () => {
+		const bmca = new BestMasterClock()
+		for (const now of [0, 1000]) {
+			bmca.update('a:1', '10.0.0.1', makeDataset(), 0, now)
+			bmca.update(
+				'b:1',
+				'10.0.0.2',
+				makeDataset({ grandmasterIdentity: '00-00-00-00-00-00-00-02', clockClass: 6 }),
+				0,
+				now,
+			)
+		}
+		expect(bmca.ranking.map((record) => record.source)).toEqual(['b:1', 'a:1'])
+		expect(bmca.decidingAttribute).toBe('clockClass')
+	})
+
+	it('expires masters after announceReceiptTimeout', () => {
+		const bmca = new BestMasterClock()
+		bmca.update('a:1', '10.0.0.1', makeDataset(), 0, 0)
+		bmca.update('a:1', '10.0.0.1', makeDataset(), 0, 1000)
+		expect(bmca.expire(3500)).toBe(false)
+		expect(bmca.expire(4001)).toBe(true)
+		expect(bmca.best).toBeUndefined()
+	})
+
+	it('expires unicast masters after the default announce interval', () => {
+		const bmca = new BestMasterClock()
+		bmca.update('a:1', '10.0.0.1', makeDataset(), 0x7f, 0)
+		bmca.update('a:1', '10.0.0.1', makeDataset(), 0x7f, 1000)
+		expect(bmca.nextExpiry).toBe(7000)
+		expect(bmca.expire(7000)).toBe(false)
+		expect(bmca.expire(7001)).toBe(true)
+		expect(bmca.best).toBeUndefined()
+	})
+})
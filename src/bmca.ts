@@ -0,0 +1,180 @@
+import { isEqual } from 'es-toolkit'
+import type { GrandmasterDataset } from './messages.js'
+
+// IEEE 1588-2008 §9.3.2.4.5: a foreign master is qualified after FOREIGN_MASTER_THRESHOLD announces
+const FOREIGN_MASTER_THRESHOLD = 2
+// IEEE 1588-2008 §7.7.3.1: default announceReceiptTimeout
+export const ANNOUNCE_RECEIPT_TIMEOUT = 3
+// IEEE 1588-2008 Annex J.3.2: default logAnnounceInterval, used for unicast announces that carry 0x7f
+export const DEFAULT_LOG_ANNOUNCE_INTERVAL = 1
+
+export type BmcaAttribute =
+	| 'priority1'
+	| 'clockClass'
+	| 'clockAccuracy'
+	| 'offsetScaledLogVariance'
+	| 'priority2'
+	| 'grandmasterIdentity'
+	| 'stepsRemoved'
+	| 'portIdentity'
+	| 'only candidate'
+
+export interface ForeignMaster {
+	source: string
+	address: string
+	dataset: GrandmasterDataset
+	announceCount: number
+	announceInterval: number
+	lastSeen: number
+}
+
+export interface BmcaComparison {
+	result: number
+	attribute: BmcaAttribute
+}
+
+/**
+ * Dataset comparison algorithm (IEEE 1588-2008 §9.3.4).
+ * The topology part is simplified to stepsRemoved then sender port identity, as the client never acts as a master.
+ * @returns result < 0 when a is better than b, > 0 when b is better, plus the attribute that decided it
+ *
+ */
+
+export const compareForeignMasters = (a: ForeignMaster, b: ForeignMaster): BmcaComparison => {
+	const gmA = a.dataset
+	const gmB = b.dataset
+	if (gmA.grandmasterIdentity != gmB.grandmasterIdentity) {
+		const attributes = [
+			'priority1',
+			'clockClass',
+			'clockAccuracy',
+			'offsetScaledLogVariance',
+			'priority2',
+		] as const satisfies BmcaAttribute[]
+		for (const attribute of attributes) {
+			if (gmA[attribute] != gmB[attribute]) return { result: gmA[attribute] - gmB[attribute], attribute }
+		}
+		return {
+			result: gmA.grandmasterIdentity < gmB.grandmasterIdentity ? -1 : 1,
+			attribute: 'grandmasterIdentity',
+		}
+	}
+	if (gmA.stepsRemoved != gmB.stepsRemoved)
+		return { result: gmA.stepsRemoved - gmB.stepsRemoved, attribute: 'stepsRemoved' }
+	if (a.source == b.source) return { result: 0, attribute: 'portIdentity' }
+	return { result: a.source < b.source ? -1 : 1, attribute: 'portIdentity' }
+}
+
+/**
+ * Keeps the foreign master dataset of one domain and ranks it with the BMCA
+ *
+ */
+
+export class BestMasterClock {
+	#foreignMasters: Map<string, ForeignMaster> = new Map()
+	#ranking: ForeignMaster[] = []
+	#decidingAttribute: BmcaAttribute = 'only candidate'
+
+	/**
+	 * Add an announce to the foreign master dataset and re-rank
+	 * @param source Sender port identity
+	 * @param address Sender IP address
+	 * @param dataset Decoded announce
+	 * @param logInterval logMessageInterval from the announce header, 0x7f for unicast announces
+	 * @param now Receipt time in ms
+	 * @returns true if the best master, its dataset or the ranking changed
+	 *
+	 */
+
+	public update(
+		source: string,
+		address: string,
+		dataset: GrandmasterDataset,
+		logInterval: number,
+		now: number = Date.now(),
+	): boolean {
+		const previous = this.best
+		const previousAttribute = this.#decidingAttribute
+		const previousCount = this.#ranking.length
+		const record = this.#foreignMasters.get(source)
+		this.#foreignMasters.set(source, {
+			source,
+			address,
+			dataset,
+			announceCount: (record?.announceCount ?? 0) + 1,
+			announceInterval: Math.pow(2, logInterval == 0x7f ? DEFAULT_LOG_ANNOUNCE_INTERVAL : logInterval) * 1000,
+			lastSeen: now,
+		})
+		this.expire(now)
+		return (
+			previous?.source != this.best?.source ||
+			!isEqual(previous?.dataset, this.best?.dataset) ||
+			previousAttribute != this.#decidingAttribute ||
+			previousCount != this.#ranking.length
+		)
+	}
+
+	/**
+	 * Drop foreign masters that have not announced within announceReceiptTimeout and re-rank
+	 * @returns true if the best master or the number of qualified masters changed
+	 *
+	 */
+
+	public expire(now: number = Date.now()): boolean {
+		const previous = this.best
+		const previousCount = this.#ranking.length
+		for (const [source, record] of this.#foreignMasters) {
+			if (now - record.lastSeen > record.announceInterval * ANNOUNCE_RECEIPT_TIMEOUT)
+				this.#foreignMasters.delete(source)
+		}
+		this.rank()
+		return previous?.source != this.best?.source || previousCount != this.#ranking.length
+	}
+
+	/**
+	 * @returns Time in ms after which the next foreign master expires, undefined without foreign masters
+	 *
+	 */
+
+	public get nextExpiry(): number | undefined {
+		const expiries = [...this.#foreignMasters.values()].map(
+			(record) => record.lastSeen + record.announceInterval * ANNOUNCE_RECEIPT_TIMEOUT,
+		)
+		return expiries.length == 0 ? undefined : Math.min(...expiries)
+	}
+
+	public clear(): void {
+		this.#foreignMasters.clear()
+		this.rank()
+	}
+
+	private rank(): void {
+		this.#ranking = [...this.#foreignMasters.values()]
+			.filter((record) => record.announceCount >= FOREIGN_MASTER_THRESHOLD)
+			.sort((a, b) => compareForeignMasters(a, b).result)
+		this.#decidingAttribute =
+			this.#ranking.length > 1 ? compareForeignMasters(this.#ranking[0], this.#ranking[1]).attribute : 'only candidate'
+	}
+
+	/**
+	 * @returns Qualified foreign masters, best first
+	 *
+	 */
+
+	public get ranking(): ForeignMaster[] {
+		return this.#ranking
+	}
+
+	public get best(): ForeignMaster | undefined {
+		return this.#ranking[0]
+	}
+
+	/**
+	 * @returns Attribute that ranks the best master above the runner up
+	 *
+	 */
+
+	public get decidingAttribute(): BmcaAttribute {
+		return this.#decidingAttribute
+	}
+}
@@ -1,10 +1,80 @@
 import type { SomeCompanionConfigField, DropdownChoice } from '@companion-module/base'
 import os from 'os'
+import type { DelayMechanism, MasterSelection } from './ptpv2.js'
+import { PtpProfiles, type PtpProfile, type PtpProfileId } from './profiles.js'
+import { TimecodeRates, type TimecodeRateId } from './timecode.js'
+import { parseKnownClocks } from './rogue.js'
 
 export interface ModuleConfig {
 	interface: string
 	domain: number
 	interval: number
+	delayMechanism: DelayMechanism
+	profile: PtpProfileId | 'none'
+	unicast: boolean
+	unicastMasters: string
+	unicastDuration: number
+	ipv6Scope: number
+	statisticsWindow: number
+	stepThreshold: number
+	conflictWindow: number
+	multiDomain: boolean
+	domains: number[]
+	utcOffsetFallback: number
+	timeZone: string
+	timecode: boolean
+	timecodeRate: TimecodeRateId
+	timecodeOffset: number
+	historySize: number
+	historyDirectory: string
+	masterSelection: MasterSelection
+	lockedMaster: string
+	rogueDetection: boolean
+	knownClocks: string
+}
+
+/**
+ * @returns Unicast master addresses from the comma separated config field, empty when unicast is disabled
+ *
+ */
+
+export function GetUnicastMasters(config: ModuleConfig): string[] {
+	if (!config.unicast) return []
+	return (config.unicastMasters ?? '')
+		.split(/[\s,]+/)
+		.map((master) => master.trim())
+		.filter((master) => master != '')
+}
+
+/**
+ * @returns Clocks allowed to act as master as domain:clock identity, undefined when rogue master detection is disabled
+ *
+ */
+
+export function GetKnownClocks(config: ModuleConfig): string[] | undefined {
+	if (!config.rogueDetection) return undefined
+	return parseKnownClocks(config.knownClocks ?? '')
+}
+
+/**
+ * @returns Domains to monitor, the configured domain first
+ *
+ */
+
+export function GetMonitoredDomains(config: ModuleConfig): number[] {
+	const domains = [config.domain]
+	if (config.multiDomain) domains.push(...(config.domains ?? []).map(Number))
+	return [...new Set(domains)]
+}
+
+/**
+ * @returns Profile to check compliance against, undefined when none is selected
+ *
+ */
+
+export function GetProfile(config: ModuleConfig): PtpProfile | undefined {
+	if (config.profile === undefined || config.profile == 'none') return undefined
+	return PtpProfiles[config.profile]
 }
 
 export function GetConfigFields(): SomeCompanionConfigField[] {
@@ -16,6 +86,9 @@ export function GetConfigFields(): SomeCompanionConfigField[] {
 		interfaces[nic].forEach((ip) => {
 			if (ip.family == 'IPv4') {
 				localNics.push({ id: ip.address, label: `${nic}: ${ip.address}` })
+			} else if (ip.family == 'IPv6') {
+				// the zone selects the interface for multicast whatever the scope of the address
+				localNics.push({ id: `${ip.address}%${nic}`, label: `${nic}: ${ip.address}` })
 			}
 		})
 	})
@@ -32,6 +105,7 @@ export function GetConfigFields(): SomeCompanionConfigField[] {
 			type: 'number',
 			id: 'domain',
 			label: 'Domain',
+			tooltip: 'Primary domain. Variables and feedbacks without a domain suffix refer to this domain',
 			width: 4,
 			min: 0,
 			max: 127,
@@ -48,5 +122,226 @@ export function GetConfigFields(): SomeCompanionConfigField[] {
 			max: 30000,
 			default: 10000,
 		},
+		{
+			type: 'number',
+			id: 'statisticsWindow',
+			label: 'Statistics Window (samples)',
+			width: 4,
+			min: 2,
+			max: 1000,
+			default: 64,
+			tooltip: 'Number of offset and path delay measurements kept for min, max, mean and standard deviation',
+		},
+		{
+			type: 'number',
+			id: 'stepThreshold',
+			label: 'Servo Step Threshold (µs)',
+			width: 4,
+			min: 1,
+			max: 1000000,
+			default: 1000,
+			tooltip: 'Offsets from master above this step the clock, smaller offsets are slewed by the servo',
+		},
+		{
+			type: 'number',
+			id: 'conflictWindow',
+			label: 'Master Conflict Window (s)',
+			width: 4,
+			min: 1,
+			max: 300,
+			default: 10,
+			tooltip: 'Clocks sending Sync or announcing stepsRemoved 0 within this window are reported as competing masters',
+		},
+		{
+			type: 'dropdown',
+			id: 'delayMechanism',
+			label: 'Delay Mechanism',
+			width: 4,
+			choices: [
+				{ id: 'E2E', label: 'End-to-End (Delay_Req)' },
+				{ id: 'P2P', label: 'Peer-to-Peer (Pdelay_Req)' },
+			],
+			default: 'E2E',
+			tooltip: 'Use Peer-to-Peer when the network uses P2P transparent clocks that do not answer Delay_Req',
+		},
+		{
+			type: 'dropdown',
+			id: 'profile',
+			label: 'PTP Profile',
+			width: 4,
+			choices: [
+				{ id: 'none', label: 'None' },
+				...Object.entries(PtpProfiles).map(([id, profile]) => ({ id, label: profile.name })),
+			],
+			default: 'none',
+			tooltip: 'Check the domain, delay mechanism and the message rates of the master against the ranges of a profile',
+		},
+		{
+			type: 'dropdown',
+			id: 'ipv6Scope',
+			label: 'IPv6 Multicast Scope',
+			width: 4,
+			choices: [
+				{ id: 0x2, label: 'Link-local (FF02::181)' },
+				{ id: 0x4, label: 'Admin-local (FF04::181)' },
+				{ id: 0x5, label: 'Site-local (FF05::181)' },
+				{ id: 0x8, label: 'Organization-local (FF08::181)' },
+				{ id: 0xe, label: 'Global (FF0E::181)' },
+			],
+			default: 0xe,
+			tooltip: 'Only used when an IPv6 interface is selected',
+		},
+		{
+			type: 'checkbox',
+			id: 'unicast',
+			label: 'Unicast',
+			width: 4,
+			default: false,
+			tooltip:
+				'Negotiate unicast Announce, Sync and Delay_Resp with the listed masters instead of joining multicast groups',
+		},
+		{
+			type: 'textinput',
+			id: 'unicastMasters',
+			label: 'Unicast Master Addresses',
+			width: 8,
+			default: '',
+			tooltip: 'Comma separated IPv4 or IPv6 addresses, matching the interface',
+			isVisibleExpression: '$(options:unicast)',
+		},
+		{
+			type: 'number',
+			id: 'unicastDuration',
+			label: 'Unicast Grant Duration (s)',
+			width: 4,
+			min: 10,
+			max: 1000,
+			default: 300,
+			isVisibleExpression: '$(options:unicast)',
+		},
+		{
+			type: 'dropdown',
+			id: 'masterSelection',
+			label: 'Master Selection',
+			width: 4,
+			choices: [
+				{ id: 'any', label: 'Any source (latest Sync)' },
+				{ id: 'locked', label: 'Locked to a clock or address' },
+				{ id: 'bmca', label: 'BMCA best master' },
+			],
+			default: 'any',
+			tooltip:
+				'Sync, Follow_Up and Delay_Resp of other sources are ignored but still counted. BMCA waits until Announces of a master qualify',
+		},
+		{
+			type: 'textinput',
+			id: 'lockedMaster',
+			label: 'Locked Master',
+			width: 8,
+			default: '',
+			tooltip:
+				'Clock identity (e.g. 00-1d-c1-ff-fe-12-34-56), port identity (e.g. 00-1d-c1-ff-fe-12-34-56:1) or IP address of the master',
+			isVisibleExpression: `$(options:masterSelection) == 'locked'`,
+		},
+		{
+			type: 'checkbox',
+			id: 'rogueDetection',
+			label: 'Rogue Master Detection',
+			width: 4,
+			default: false,
+			tooltip: 'Raise an alarm when a clock that is not a known clock sends Sync or Announce on a monitored domain',
+		},
+		{
+			type: 'textinput',
+			id: 'knownClocks',
+			label: 'Known Clocks',
+			width: 8,
+			default: '',
+			tooltip:
+				'Comma separated domain:clock identity, e.g. 0:00-1d-c1-ff-fe-12-34-56. The Approve Master action adds clocks to this list',
+			isVisibleExpression: '$(options:rogueDetection)',
+		},
+		{
+			type: 'checkbox',
+			id: 'multiDomain',
+			label: 'Monitor Additional Domains',
+			width: 4,
+			default: false,
+		},
+		{
+			type: 'multidropdown',
+			id: 'domains',
+			label: 'Additional Domains',
+			width: 8,
+			choices: Array.from({ length: 128 }, (_, domain) => ({ id: domain, label: `Domain ${domain}` })),
+			default: [],
+			isVisibleExpression: '$(options:multiDomain)',
+		},
+		{
+			type: 'number',
+			id: 'utcOffsetFallback',
+			label: 'Fallback UTC Offset (s)',
+			width: 4,
+			min: 0,
+			max: 100,
+			default: 37,
+			tooltip: 'TAI - UTC used to convert PTP time while the grandmaster does not announce a valid offset',
+		},
+		{
+			type: 'textinput',
+			id: 'timeZone',
+			label: 'Time Zone',
+			width: 4,
+			default: 'UTC',
+			tooltip: 'IANA time zone of the local time variables, e.g. Europe/London',
+		},
+		{
+			type: 'checkbox',
+			id: 'timecode',
+			label: 'Timecode',
+			width: 4,
+			default: false,
+			tooltip: 'Publish SMPTE ST 2059-1 timecode of the primary domain',
+		},
+		{
+			type: 'dropdown',
+			id: 'timecodeRate',
+			label: 'Timecode Frame Rate',
+			width: 4,
+			choices: Object.entries(TimecodeRates).map(([id, rate]) => ({ id, label: rate.name })),
+			default: '25',
+			isVisibleExpression: '$(options:timecode)',
+		},
+		{
+			type: 'number',
+			id: 'timecodeOffset',
+			label: 'Timecode Time Zone Offset (h)',
+			width: 4,
+			min: -12,
+			max: 14,
+			step: 0.25,
+			default: 0,
+			tooltip: 'Offset of local time from UTC, timecode is jammed at local midnight',
+			isVisibleExpression: '$(options:timecode)',
+		},
+		{
+			type: 'number',
+			id: 'historySize',
+			label: 'Event History Size (events)',
+			width: 4,
+			min: 10,
+			max: 10000,
+			default: 100,
+			tooltip:
+				'Master changes, sync losses, conflicts, errors and socket closes kept for the history variables and export',
+		},
+		{
+			type: 'textinput',
+			id: 'historyDirectory',
+			label: 'Event History Export Directory',
+			width: 8,
+			default: '',
+			tooltip: 'Directory the Export Event History action writes to, the home directory of Companion if empty',
+		},
 	]
 }
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { MasterConflict } from './conflict.js'
+
+describe('MasterConflict', () => {
+	it('is no conflict with a single master', () => {
+		const conflict = new MasterConflict(10000)
+		expect(conflict.claim('a:0', '10.0.0.1', 0)).toBe(false)
+		expect(conflict.claim('a:0', '10.0.0.1', 1000)).toBe(false)
+		expect(conflict.conflicting).toEqual([])
+	})
+
+	it('reports a second master within the window once', () => {
+		const conflict = new MasterConflict(10000)
+		conflict.claim('b:0', '10.0.0.2', 0)
+		expect(conflict.claim('a:0', '10.0.0.1', 5000)).toBe(true)
+		expect(conflict.claim('b:0', '10.0.0.2', 6000)).toBe(false)
+		expect(conflict.conflicting).toEqual([
+			{ source: 'a:0', address: '10.0.0.1', lastSeen: 5000 },
+			{ source: 'b:0', address: '10.0.0.2', lastSeen: 6000 },
+		])
+	})
+
+	it('resolves once the other master has not been seen for the window', () => {
+		const conflict = new MasterConflict(10000)
+		conflict.claim('a:0', '10.0.0.1', 0)
+		conflict.claim('b:0', '10.0.0.2', 0)
+		expect(conflict.claim('a:0', '10.0.0.1', 10000)).toBe(false)
+		expect(conflict.claim('a:0', '10.0.0.1', 10001)).toBe(true)
+		expect(conflict.conflicting).toEqual([])
+	})
+
+	it('clears', () => {
+		const conflict = new MasterConflict()
+		conflict.claim('a:0', '10.0.0.1', 0)
+		conflict.claim('b:0', '10.0.0.2', 0)
+		conflict.clear()
+		expect(conflict.conflicting).toEqual([])
+	})
+})
@@ -0,0 +1,56 @@
+export interface MasterClaim {
+	source: string
+	address: string
+	lastSeen: number
+}
+
+/**
+ * Tracks the clocks of one domain that act as master, i.e. send Sync or announce stepsRemoved 0.
+ * More than one within the time window is a conflict.
+ * @param window Time window in ms
+ *
+ */
+
+export class MasterConflict {
+	#claims: Map<string, MasterClaim> = new Map()
+	#window: number = 10000
+	#conflicting: string[] = []
+
+	constructor(window: number = 10000) {
+		if (window > 0) this.#window = window
+	}
+
+	/**
+	 * Record a clock acting as master and drop claims older than the window
+	 * @param source Port identity of the clock
+	 * @param address IP address of the clock
+	 * @param now Receipt time in ms
+	 * @returns true if the set of conflicting clocks changed
+	 *
+	 */
+
+	public claim(source: string, address: string, now: number = Date.now()): boolean {
+		this.#claims.set(source, { source, address, lastSeen: now })
+		for (const [key, claim] of this.#claims) {
+			if (now - claim.lastSeen > this.#window) this.#claims.delete(key)
+		}
+		const conflicting = this.#claims.size > 1 ? [...this.#claims.keys()].sort() : []
+		if (conflicting.join() == this.#conflicting.join()) return false
+		this.#conflicting = conflicting
+		return true
+	}
+
+	public clear(): void {
+		this.#claims.clear()
+		this.#conflicting = []
+	}
+
+	/**
+	 * @returns Clocks acting as master within the window, empty unless there is more than one
+	 *
+	 */
+
+	public get conflicting(): MasterClaim[] {
+		return this.#conflicting.flatMap((source) => this.#claims.get(source) ?? [])
+	}
+}
@@ -1,8 +1,89 @@
-import { combineRgb } from '@companion-module/base'
+import {
+	combineRgb,
+	type CompanionFeedbackDefinitions,
+	type CompanionInputFieldDropdown,
+	type CompanionOptionValues,
+} from '@companion-module/base'
 import type { ModuleInstance } from './main.js'
+import { GetMonitoredDomains } from './config.js'
+import { MonitoredMessages } from './monitor.js'
+import { TimeSources } from './messages.js'
+import type { PtpDomainStatus } from './ptpv2.js'
+import { parseScheduledTime, type PtpSchedule, type ScheduleTimescale } from './scheduler.js'
+import { TimecodeRates, type TimecodeRateId } from './timecode.js'
 
-export function UpdateFeedbacks(self: ModuleInstance): void {
-	self.setFeedbackDefinitions({
+/**
+ * Domain a feedback refers to, feedbacks created before multi-domain support use the primary domain
+ *
+ */
+
+export const optionDomain = (self: ModuleInstance, options: CompanionOptionValues): number => {
+	const domain = options.domain
+	if (domain === undefined || domain === 'primary') return self.client.monitored_domains[0]
+	return Number(domain)
+}
+
+/**
+ * Domain option listing the primary and the monitored domains, read with optionDomain
+ *
+ */
+
+export const buildDomainOption = (self: ModuleInstance): CompanionInputFieldDropdown => ({
+	type: 'dropdown',
+	id: 'domain',
+	label: 'Domain',
+	choices: [
+		{ id: 'primary', label: 'Primary Domain' },
+		...(self.config ? GetMonitoredDomains(self.config) : []).map((domain) => ({
+			id: domain,
+			label: `Domain ${domain}`,
+		})),
+	],
+	default: 'primary',
+})
+
+/**
+ * Interval between measurements: the configured Sync Interval, or the Sync interval of the master if longer
+ *
+ */
+
+const measurementInterval = (self: ModuleInstance, status: PtpDomainStatus): number => {
+	const logSyncInterval = status.intervals.logSyncInterval
+	const syncInterval = logSyncInterval === undefined ? 0 : Math.pow(2, logSyncInterval) * 1000
+	return Math.max(self.config?.interval ?? 10000, syncInterval)
+}
+
+/**
+ * Schedule of a scheduledTime feedback, undefined if the time is not valid
+ *
+ */
+
+const feedbackSchedule = (self: ModuleInstance, options: CompanionOptionValues): PtpSchedule | undefined => {
+	const timescale: ScheduleTimescale =
+		options.timescale == 'tai' || options.timescale == 'local' ? options.timescale : 'utc'
+	const every = Math.max(1, Math.round(Number(options.every ?? 1)))
+	switch (options.mode) {
+		case 'seconds': {
+			const offset = timescale == 'tai' ? 0 : self.utcOffset - (timescale == 'local' ? self.localOffset : 0)
+			return { type: 'every', numerator: every, denominator: 1, offset }
+		}
+		case 'frames': {
+			const rate = TimecodeRates[options.rate as TimecodeRateId] ?? TimecodeRates['25']
+			return { type: 'every', numerator: every * rate.denominator, denominator: rate.numerator, offset: 0 }
+		}
+		default:
+			return parseScheduledTime(options.time?.toString() ?? '', self.utcOffset, timescale, self.localOffset)
+	}
+}
+
+/**
+ * Feedback definitions, shared with the presets
+ *
+ */
+
+export function GetFeedbackDefinitions(self: ModuleInstance): CompanionFeedbackDefinitions {
+	const domainOption = buildDomainOption(self)
+	return {
 		isSynced: {
 			name: 'PTP Synced',
 			type: 'boolean',
@@ -10,10 +91,385 @@ export function UpdateFeedbacks(self: ModuleInstance): void {
 				bgcolor: combineRgb(255, 0, 0),
 				color: combineRgb(0, 0, 0),
 			},
+			options: [domainOption],
+			callback: (feedback) => {
+				return self.client.getDomainStatus(optionDomain(self, feedback.options))?.synced ?? false
+			},
+		},
+		bmcaMismatch: {
+			name: 'PTP Master is not BMCA Best Master',
+			type: 'boolean',
+			defaultStyle: {
+				bgcolor: combineRgb(255, 191, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [domainOption],
+			callback: (feedback) => {
+				return !(self.client.getDomainStatus(optionDomain(self, feedback.options))?.followingBest ?? true)
+			},
+		},
+		masterConflict: {
+			name: 'PTP Master Conflict',
+			type: 'boolean',
+			description: 'More than one clock acts as master of the domain',
+			defaultStyle: {
+				bgcolor: combineRgb(255, 0, 0),
+				color: combineRgb(255, 255, 255),
+			},
+			options: [domainOption],
+			callback: (feedback) => {
+				return (self.client.getDomainStatus(optionDomain(self, feedback.options))?.masterConflict.length ?? 0) > 0
+			},
+		},
+		rogueMaster: {
+			name: 'PTP Rogue Master',
+			type: 'boolean',
+			description: 'A clock that is not a known clock sent Sync or Announce on the domain',
+			defaultStyle: {
+				bgcolor: combineRgb(255, 0, 0),
+				color: combineRgb(255, 255, 255),
+			},
+			options: [domainOption],
+			callback: (feedback) => {
+				const domain = optionDomain(self, feedback.options)
+				return self.client.rogue_masters.some((rogue) => rogue.domain == domain)
+			},
+		},
+		messageHealth: {
+			name: 'PTP Messages Missing or Off Rate',
+			type: 'boolean',
+			description:
+				'A message went missing within the time window, or its measured rate differs from the advertised rate by more than 50%',
+			defaultStyle: {
+				bgcolor: combineRgb(255, 191, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				domainOption,
+				{
+					type: 'dropdown',
+					id: 'message',
+					label: 'Message',
+					choices: [{ id: 'any', label: 'Any' }, ...MonitoredMessages.map((type) => ({ id: type, label: type }))],
+					default: 'any',
+				},
+				{
+					type: 'number',
+					id: 'window',
+					label: 'Time Window (s)',
+					min: 1,
+					max: 3600,
+					default: 10,
+				},
+			],
+			callback: (feedback) => {
+				const messages = self.client.getDomainStatus(optionDomain(self, feedback.options))?.messages
+				if (messages === undefined) return false
+				const since = Date.now() - Number(feedback.options.window ?? 10) * 1000
+				return MonitoredMessages.filter((type) => feedback.options.message == 'any' || feedback.options.message == type)
+					.map((type) => messages[type])
+					.some((rate) => !rate.withinTolerance || (rate.lastMissed > 0 && rate.lastMissed >= since))
+			},
+		},
+		offsetThreshold: {
+			name: 'PTP Offset From Master',
+			type: 'boolean',
+			description: 'The absolute offset from master of the last measurement is above or below a threshold',
+			defaultStyle: {
+				bgcolor: combineRgb(255, 191, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				domainOption,
+				{
+					type: 'dropdown',
+					id: 'comparison',
+					label: 'Comparison',
+					choices: [
+						{ id: 'above', label: 'Above' },
+						{ id: 'below', label: 'Below' },
+					],
+					default: 'above',
+				},
+				{
+					type: 'number',
+					id: 'threshold',
+					label: 'Threshold (ns)',
+					min: 0,
+					max: 1_000_000_000,
+					default: 1000,
+				},
+			],
+			callback: (feedback) => {
+				const offset = self.client.getDomainStatus(optionDomain(self, feedback.options))?.statistics.offset.current
+				if (offset === undefined) return false
+				const threshold = Number(feedback.options.threshold ?? 1000)
+				return feedback.options.comparison == 'below' ? Math.abs(offset) < threshold : Math.abs(offset) > threshold
+			},
+		},
+		grandmasterIdentity: {
+			name: 'PTP Grandmaster Identity',
+			type: 'boolean',
+			description: 'The grandmaster of the domain has the given clock identity. Learn captures the current grandmaster',
+			defaultStyle: {
+				bgcolor: combineRgb(0, 204, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				domainOption,
+				{
+					type: 'textinput',
+					id: 'identity',
+					label: 'Clock Identity',
+					tooltip: 'e.g. 00-1d-c1-ff-fe-12-34-56',
+					default: '',
+				},
+			],
+			callback: (feedback) => {
+				const grandmaster = self.client.getDomainStatus(optionDomain(self, feedback.options))?.grandmaster
+				const identity = feedback.options.identity?.toString().trim().toLowerCase() ?? ''
+				return identity != '' && grandmaster?.grandmasterIdentity == identity
+			},
+			learn: (feedback) => {
+				const identity = self.client.getDomainStatus(optionDomain(self, feedback.options))?.grandmaster
+					?.grandmasterIdentity
+				return identity === undefined ? undefined : { ...feedback.options, identity }
+			},
+		},
+		masterChanged: {
+			name: 'PTP Master Changed Recently',
+			type: 'boolean',
+			description: 'The client started following a different master within the time window',
+			defaultStyle: {
+				bgcolor: combineRgb(255, 191, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				domainOption,
+				{
+					type: 'number',
+					id: 'window',
+					label: 'Time Window (s)',
+					min: 1,
+					max: 86400,
+					default: 60,
+				},
+			],
+			callback: (feedback) => {
+				const changed = self.client.getDomainStatus(optionDomain(self, feedback.options))?.masterChanged ?? 0
+				return changed > 0 && Date.now() - changed <= Number(feedback.options.window ?? 60) * 1000
+			},
+		},
+		clockClass: {
+			name: 'PTP Grandmaster Clock Class',
+			type: 'boolean',
+			description: 'The grandmaster announces the given clockClass, e.g. 6 when locked to a primary reference',
+			defaultStyle: {
+				bgcolor: combineRgb(0, 204, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				domainOption,
+				{
+					type: 'number',
+					id: 'clockClass',
+					label: 'Clock Class',
+					min: 0,
+					max: 255,
+					default: 6,
+				},
+			],
+			callback: (feedback) => {
+				const grandmaster = self.client.getDomainStatus(optionDomain(self, feedback.options))?.grandmaster
+				return grandmaster?.clockClass == Number(feedback.options.clockClass)
+			},
+		},
+		timeSource: {
+			name: 'PTP Grandmaster Time Source',
+			type: 'boolean',
+			defaultStyle: {
+				bgcolor: combineRgb(0, 204, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				domainOption,
+				{
+					type: 'dropdown',
+					id: 'timeSource',
+					label: 'Time Source',
+					choices: Object.entries(TimeSources).map(([id, label]) => ({ id: Number(id), label })),
+					default: 0x20,
+				},
+			],
+			callback: (feedback) => {
+				const grandmaster = self.client.getDomainStatus(optionDomain(self, feedback.options))?.grandmaster
+				return grandmaster?.timeSource == Number(feedback.options.timeSource)
+			},
+		},
+		domainSeen: {
+			name: 'PTP Domain Seen',
+			type: 'boolean',
+			description: 'Messages of the domain were seen on the network, whether or not it is monitored',
+			defaultStyle: {
+				bgcolor: combineRgb(0, 204, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				{
+					type: 'number',
+					id: 'domain',
+					label: 'Domain',
+					min: 0,
+					max: 127,
+					default: 0,
+				},
+			],
+			callback: (feedback) => {
+				return [...self.client.domains].includes(Number(feedback.options.domain))
+			},
+		},
+		syncAge: {
+			name: 'PTP Sync Age',
+			type: 'advanced',
+			description:
+				'Colour by the time since the last measurement, relative to the Sync Interval (or the Sync interval of the master if longer)',
+			options: [
+				domainOption,
+				{
+					type: 'number',
+					id: 'amber',
+					label: 'Amber After (intervals)',
+					min: 1,
+					max: 100,
+					step: 0.5,
+					default: 1.5,
+				},
+				{
+					type: 'number',
+					id: 'red',
+					label: 'Red After (intervals)',
+					tooltip: 'Sync is reported lost after 2 intervals',
+					min: 1,
+					max: 100,
+					step: 0.5,
+					default: 2,
+				},
+				{ type: 'colorpicker', id: 'okColor', label: 'Green', default: combineRgb(0, 204, 0) },
+				{ type: 'colorpicker', id: 'amberColor', label: 'Amber', default: combineRgb(255, 191, 0) },
+				{ type: 'colorpicker', id: 'redColor', label: 'Red', default: combineRgb(255, 0, 0) },
+			],
+			callback: (feedback) => {
+				const status = self.client.getDomainStatus(optionDomain(self, feedback.options))
+				if (status === undefined) return {}
+				const age = status.lastSync == 0 ? Infinity : (Date.now() - status.lastSync) / measurementInterval(self, status)
+				const color =
+					age >= Number(feedback.options.red ?? 2)
+						? feedback.options.redColor
+						: age >= Number(feedback.options.amber ?? 1.5)
+							? feedback.options.amberColor
+							: feedback.options.okColor
+				return { bgcolor: Number(color), color: combineRgb(0, 0, 0) }
+			},
+		},
+		scheduledTime: {
+			name: 'PTP Scheduled Time',
+			type: 'boolean',
+			description: 'True for the hold time from a scheduled PTP time on, re-evaluated at the scheduled time',
+			defaultStyle: {
+				bgcolor: combineRgb(0, 204, 0),
+				color: combineRgb(0, 0, 0),
+			},
+			options: [
+				{
+					type: 'dropdown',
+					id: 'mode',
+					label: 'Schedule',
+					choices: [
+						{ id: 'time', label: 'At a time' },
+						{ id: 'seconds', label: 'Every N seconds' },
+						{ id: 'frames', label: 'Every N frames' },
+					],
+					default: 'seconds',
+				},
+				{
+					type: 'textinput',
+					id: 'time',
+					label: 'Time',
+					tooltip:
+						'Date and time, e.g. 2026-10-19T20:00:00 or 2026-10-19T20:00:00Z, or a time of day hh:mm:ss to repeat every day, in the timescale below',
+					default: '',
+					isVisibleExpression: `$(options:mode) == 'time'`,
+				},
+				{
+					type: 'number',
+					id: 'every',
+					label: 'Every',
+					min: 1,
+					max: 86400,
+					default: 1,
+					isVisibleExpression: `$(options:mode) != 'time'`,
+				},
+				{
+					type: 'dropdown',
+					id: 'rate',
+					label: 'Frame Rate',
+					choices: Object.entries(TimecodeRates).map(([id, rate]) => ({ id, label: rate.name })),
+					default: '25',
+					isVisibleExpression: `$(options:mode) == 'frames'`,
+				},
+				{
+					type: 'dropdown',
+					id: 'timescale',
+					label: 'Timescale',
+					tooltip:
+						'Local reads times without a zone as local time and aligns second boundaries to it, UTC to UTC, TAI to the PTP epoch. Frames are always aligned to the PTP epoch',
+					choices: [
+						{ id: 'local', label: 'Local' },
+						{ id: 'utc', label: 'UTC' },
+						{ id: 'tai', label: 'TAI (PTP)' },
+					],
+					default: 'local',
+					isVisibleExpression: `$(options:mode) != 'frames'`,
+				},
+				{
+					type: 'number',
+					id: 'hold',
+					label: 'Hold (ms)',
+					tooltip: '0 stays true from the scheduled time on',
+					min: 0,
+					max: 3600000,
+					default: 1000,
+				},
+			],
+			callback: (feedback) => {
+				const schedule = feedbackSchedule(self, feedback.options)
+				if (schedule === undefined) {
+					self.clearSchedule(feedback.id)
+					return false
+				}
+				self.setSchedule(feedback.id, schedule, Number(feedback.options.hold ?? 1000))
+				return self.isScheduledTimeActive(feedback.id)
+			},
+			unsubscribe: (feedback) => {
+				self.clearSchedule(feedback.id)
+			},
+		},
+		profileCompliant: {
+			name: 'PTP Profile Compliant',
+			type: 'boolean',
+			description: 'Primary domain matches the selected profile. Always true when no profile is selected',
+			defaultStyle: {
+				bgcolor: combineRgb(0, 204, 0),
+				color: combineRgb(0, 0, 0),
+			},
 			options: [],
-			callback: (_feedback) => {
-				return self.client.is_synced
+			callback: () => {
+				return self.profileViolations.length == 0
 			},
 		},
-	})
+	}
+}
+
+export function UpdateFeedbacks(self: ModuleInstance): void {
+	self.setFeedbackDefinitions(GetFeedbackDefinitions(self))
 }
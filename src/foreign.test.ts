@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { ForeignMasterTable } from './foreign.js'
+import type { GrandmasterDataset } from './messages.js'
+
+const dataset: GrandmasterDataset = {
+	grandmasterIdentity: '00-11-22-33-44-55-66-77',
+	priority1: 128,
+	clockClass: 6,
+	clockAccuracy: 0x21,
+	offsetScaledLogVariance: 0x4e5d,
+	priority2: 128,
+	stepsRemoved: 0,
+	timeSource: 0x20,
+	currentUtcOffset: 37,
+	currentUtcOffsetValid: true,
+	ptpTimescale: true,
+}
+
+describe('ForeignMasterTable', () => {
+	it('records first and last seen and counts messages per type', () => {
+		const table = new ForeignMasterTable()
+		expect(table.record('a:1', '10.0.0.1', 0, 0x00, undefined, 1000)).toBe(true)
+		expect(table.record('a:1', '10.0.0.1', 0, 0x08, undefined, 2000)).toBe(false)
+		expect(table.record('a:1', '10.0.0.1', 0, 0x00, undefined, 3000)).toBe(false)
+		expect(table.get('a:1', 0)).toEqual({
+			portIdentity: 'a:1',
+			address: '10.0.0.1',
+			domain: 0,
+			firstSeen: 1000,
+			lastSeen: 3000,
+			messages: { Sync: 2, Follow_Up: 1 },
+			announce: undefined,
+		})
+	})
+
+	it('keeps the latest announce and reports changed attributes', () => {
+		const table = new ForeignMasterTable()
+		expect(table.record('a:1', '10.0.0.1', 0, 0x0b, dataset, 0)).toBe(true)
+		expect(table.record('a:1', '10.0.0.1', 0, 0x0b, { ...dataset }, 1000)).toBe(false)
+		expect(table.record('a:1', '10.0.0.1', 0, 0x00, undefined, 1500)).toBe(false)
+		expect(table.record('a:1', '10.0.0.1', 0, 0x0b, { ...dataset, clockClass: 7 }, 2000)).toBe(true)
+		expect(table.get('a:1', 0)?.announce?.clockClass).toBe(7)
+	})
+
+	it('orders clocks by domain then port identity', () => {
+		const table = new ForeignMasterTable()
+		table.record('b:1', '10.0.0.2', 127, 0x00)
+		table.record('c:1', '10.0.0.3', 0, 0x00)
+		table.record('a:1', '10.0.0.1', 127, 0x00)
+		expect(table.clocks.map((clock) => clock.portIdentity)).toEqual(['c:1', 'a:1', 'b:1'])
+		expect(table.size).toBe(3)
+		table.clear()
+		expect(table.clocks).toEqual([])
+	})
+
+	it('keeps a clock heard on several domains apart per domain', () => {
+		const table = new ForeignMasterTable()
+		expect(table.record('a:1', '10.0.0.1', 0, 0x00, undefined, 1000)).toBe(true)
+		expect(table.record('a:1', '10.0.0.1', 127, 0x0b, dataset, 2000)).toBe(true)
+		table.record('a:1', '10.0.0.1', 0, 0x00, undefined, 3000)
+		expect(table.get('a:1', 0)).toMatchObject({
+			domain: 0,
+			firstSeen: 1000,
+			messages: { Sync: 2 },
+			announce: undefined,
+		})
+		expect(table.get('a:1', 127)).toMatchObject({ domain: 127, firstSeen: 2000, messages: { Announce: 1 } })
+		expect(table.clocks.map((clock) => clock.domain)).toEqual([0, 127])
+		expect(table.size).toBe(2)
+	})
+
+	it('returns copies', () => {
+		const table = new ForeignMasterTable()
+		table.record('a:1', '10.0.0.1', 0, 0x00)
+		table.clocks[0].messages.Sync = 10
+		expect(table.get('a:1', 0)?.messages.Sync).toBe(1)
+	})
+})
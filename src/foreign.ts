@@ -0,0 +1,90 @@
+import { isEqual } from 'es-toolkit'
+import { messageTypeName, type GrandmasterDataset } from './messages.js'
+
+export interface ForeignClock {
+	portIdentity: string
+	address: string
+	/** Domain the clock was heard on, a clock on several domains has an entry per domain */
+	domain: number
+	/** Date.now() of the first message */
+	firstSeen: number
+	/** Date.now() of the last message */
+	lastSeen: number
+	/** Messages received per message type, e.g. { Sync: 12, Announce: 3 } */
+	messages: Record<string, number>
+	/** Attributes of the latest Announce, undefined if the clock never announced */
+	announce: GrandmasterDataset | undefined
+}
+
+/**
+ * Every PTP clock heard on any domain, keyed by domain and port identity.
+ * Unlike the BMCA foreign masters, entries are neither qualified nor expired.
+ *
+ */
+
+export class ForeignMasterTable {
+	#clocks: Map<string, ForeignClock> = new Map()
+
+	/**
+	 * Record a message from a clock
+	 * @param portIdentity Source port identity of the message
+	 * @param address IP address of the clock
+	 * @param messageType PTP messageType
+	 * @param announce Attributes of the message if it is an Announce
+	 * @param now Receipt time in ms
+	 * @returns true if the clock is new or announced different attributes
+	 *
+	 */
+
+	public record(
+		portIdentity: string,
+		address: string,
+		domain: number,
+		messageType: number,
+		announce: GrandmasterDataset | undefined = undefined,
+		now: number = Date.now(),
+	): boolean {
+		const key = `${domain}:${portIdentity}`
+		let clock = this.#clocks.get(key)
+		const added = clock === undefined
+		if (clock === undefined) {
+			clock = { portIdentity, address, domain, firstSeen: now, lastSeen: now, messages: {}, announce: undefined }
+			this.#clocks.set(key, clock)
+		}
+		const type = messageTypeName(messageType)
+		clock.messages[type] = (clock.messages[type] ?? 0) + 1
+		clock.address = address
+		clock.lastSeen = now
+		if (announce === undefined || isEqual(announce, clock.announce)) return added
+		clock.announce = announce
+		return true
+	}
+
+	public clear(): void {
+		this.#clocks.clear()
+	}
+
+	public get(portIdentity: string, domain: number): ForeignClock | undefined {
+		const clock = this.#clocks.get(`${domain}:${portIdentity}`)
+		return clock === undefined ? undefined : ForeignMasterTable.copy(clock)
+	}
+
+	private static copy(clock: ForeignClock): ForeignClock {
+		return { ...clock, messages: { ...clock.messages } }
+	}
+
+	/**
+	 * @returns Copies of all clocks, ordered by domain then port identity
+	 *
+	 */
+
+	public get clocks(): ForeignClock[] {
+		return [...this.#clocks.values()]
+			.map((clock) => ForeignMasterTable.copy(clock))
+			.sort((a, b) => a.domain - b.domain || (a.portIdentity < b.portIdentity ? -1 : 1))
+	}
+
+	public get size(): number {
+		return this.#clocks.size
+	}
+}
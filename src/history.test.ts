@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { EventHistory } from './history.js'
+
+describe('EventHistory', () => {
+	it('keeps the last n events newest first and counts all events', () => {
+		const history = new EventHistory(2)
+		history.add('sync_locked', 'Locked', 0, 1000)
+		history.add('sync_lost', 'Unlocked', 0, 2000)
+		history.add('sync_locked', 'Locked', 0, 3000)
+		expect(history.events.map((event) => event.time)).toEqual([3000, 2000])
+		expect(history.counts).toMatchObject({ sync_locked: 2, sync_lost: 1, master_changed: 0 })
+	})
+
+	it('drops the oldest events when resized', () => {
+		const history = new EventHistory(3)
+		history.add('error', 'a', undefined, 1000)
+		history.add('error', 'b', undefined, 2000)
+		history.add('error', 'c', undefined, 3000)
+		history.resize(1)
+		expect(history.events.map((event) => event.message)).toEqual(['c'])
+		expect(history.counts.error).toBe(3)
+	})
+
+	it('restarts the counters on clear', () => {
+		const history = new EventHistory()
+		history.add('close', 'socket closed', undefined, 1000)
+		history.clear(5000)
+		expect(history.events).toEqual([])
+		expect(history.counts.close).toBe(0)
+		expect(history.since).toBe(5000)
+	})
+
+	it('exports JSON oldest first with the counters', () => {
+		const history = new EventHistory()
+		history.clear(0)
+		history.add('master_changed', 'Master a:1', 0, 1000)
+		history.add('sync_lost', 'Unlocked', 0, 2000)
+		expect(JSON.parse(history.export('json'))).toEqual({
+			since: '1970-01-01T00:00:00.000Z',
+			counts: {
+				master_changed: 1,
+				sync_lost: 1,
+				sync_locked: 0,
+				master_conflict: 0,
+				rogue_master: 0,
+				error: 0,
+				close: 0,
+			},
+			events: [
+				{ time: '1970-01-01T00:00:01.000Z', type: 'master_changed', domain: 0, message: 'Master a:1' },
+				{ time: '1970-01-01T00:00:02.000Z', type: 'sync_lost', domain: 0, message: 'Unlocked' },
+			],
+		})
+	})
+
+	it('exports CSV with quoted fields', () => {
+		const history = new EventHistory()
+		history.add('error', 'bind failed, "EADDRINUSE"', undefined, 1000)
+		expect(history.export('csv')).toBe(
+			'time,type,domain,message\r\n1970-01-01T00:00:01.000Z,error,,"bind failed, ""EADDRINUSE"""\r\n',
+		)
+	})
+})
@@ -0,0 +1,140 @@
+export const HistoryEventTypes = {
+	MasterChanged: 'master_changed',
+	SyncLost: 'sync_lost',
+	SyncLocked: 'sync_locked',
+	MasterConflict: 'master_conflict',
+	RogueMaster: 'rogue_master',
+	Error: 'error',
+	Close: 'close',
+} as const
+
+export type HistoryEventType = (typeof HistoryEventTypes)[keyof typeof HistoryEventTypes]
+
+// latest events published as variables
+export const HISTORY_VARIABLES = 5
+
+export type HistoryFormat = 'json' | 'csv'
+
+export interface HistoryEvent {
+	/** Date.now() of the event */
+	time: number
+	type: HistoryEventType
+	/** Domain the event refers to, undefined for socket events */
+	domain: number | undefined
+	message: string
+}
+
+const CSV_COLUMNS: (keyof HistoryEvent)[] = ['time', 'type', 'domain', 'message']
+
+/**
+ * Quote a CSV field if it contains a separator, quote or line break
+ *
+ */
+
+const csvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value)
+
+/**
+ * Timestamped PTP events, keeping the last n events and counting every event since the last clear
+ * @param size Number of events kept
+ *
+ */
+
+export class EventHistory {
+	#events: HistoryEvent[] = []
+	#size: number = 100
+	#counts: Record<HistoryEventType, number> = EventHistory.emptyCounts()
+	#since: number = Date.now()
+
+	constructor(size: number = 100) {
+		this.resize(size)
+	}
+
+	private static emptyCounts(): Record<HistoryEventType, number> {
+		return Object.fromEntries(Object.values(HistoryEventTypes).map((type) => [type, 0])) as Record<
+			HistoryEventType,
+			number
+		>
+	}
+
+	public add(type: HistoryEventType, message: string, domain?: number, now: number = Date.now()): HistoryEvent {
+		const event: HistoryEvent = { time: now, type, domain, message }
+		this.#events.push(event)
+		if (this.#events.length > this.#size) this.#events.shift()
+		this.#counts[type]++
+		return { ...event }
+	}
+
+	/**
+	 * Change the number of events kept, dropping the oldest events if the history shrinks
+	 *
+	 */
+
+	public resize(size: number): void {
+		if (size >= 1) this.#size = Math.round(size)
+		if (this.#events.length > this.#size) this.#events.splice(0, this.#events.length - this.#size)
+	}
+
+	/**
+	 * Forget all events and restart the counters
+	 *
+	 */
+
+	public clear(now: number = Date.now()): void {
+		this.#events = []
+		this.#counts = EventHistory.emptyCounts()
+		this.#since = now
+	}
+
+	/**
+	 * @returns Copies of the events kept, newest first
+	 *
+	 */
+
+	public get events(): HistoryEvent[] {
+		return this.#events.map((event) => ({ ...event })).reverse()
+	}
+
+	/**
+	 * @returns Events of each type since the last clear, including events no longer kept
+	 *
+	 */
+
+	public get counts(): Record<HistoryEventType, number> {
+		return { ...this.#counts }
+	}
+
+	/** Date.now() of the last clear */
+	public get since(): number {
+		return this.#since
+	}
+
+	public get size(): number {
+		return this.#size
+	}
+
+	/**
+	 * @returns The events kept, oldest first, as a JSON document with the counters or as CSV with ISO timestamps
+	 *
+	 */
+
+	public export(format: HistoryFormat): string {
+		const events = this.events.reverse()
+		if (format == 'json') {
+			return JSON.stringify(
+				{
+					since: new Date(this.#since).toISOString(),
+					counts: this.#counts,
+					events: events.map((event) => ({ ...event, time: new Date(event.time).toISOString() })),
+				},
+				null,
+				'\t',
+			)
+		}
+		const rows = events.map((event) =>
+			CSV_COLUMNS.map((column) =>
+				csvField(column == 'time' ? new Date(event.time).toISOString() : String(event[column] ?? '')),
+			).join(','),
+		)
+		return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+	}
+}
@@ -0,0 +1,38 @@
+import os from 'os'
+import { randomBytes } from 'crypto'
+
+/**
+ * Build an EUI-64 clock identity from a 48 bit MAC address (IEEE 1588-2008 §7.5.2.2.2)
+ * @param mac MAC address, e.g. 'aa:bb:cc:dd:ee:ff'
+ * @returns 8 byte clock identity aa-bb-cc-ff-fe-dd-ee-ff
+ *
+ */
+
+export const clockIdentityFromMac = (mac: string): Buffer => {
+	const bytes = Buffer.from(mac.replace(/[:-]/g, ''), 'hex')
+	return Buffer.concat([bytes.subarray(0, 3), Buffer.from([0xff, 0xfe]), bytes.subarray(3, 6)])
+}
+
+/**
+ * Clock identity for the interface the client binds to.
+ * Falls back to the first non-internal interface when bound to all interfaces,
+ * and to a random identity if no MAC address is available.
+ * @param iface Interface address, IPv6 addresses may include a zone
+ *
+ */
+
+export const localClockIdentity = (iface: string): Buffer => {
+	const address = iface.split('%')[0]
+	const nics = Object.values(os.networkInterfaces()).flatMap((nic) => nic ?? [])
+	const usable = nics.filter((nic) => nic.mac != '00:00:00:00:00:00')
+	const nic = usable.find((nic) => nic.address == address) ?? usable.find((nic) => !nic.internal)
+	return nic ? clockIdentityFromMac(nic.mac) : randomBytes(8)
+}
+
+/**
+ * @returns Name of the interface that has an address, used as the zone of IPv6 addresses given without one
+ *
+ */
+
+export const interfaceName = (address: string): string | undefined =>
+	Object.entries(os.networkInterfaces()).find(([, nics]) => nics?.some((nic) => nic.address == address))?.[0]
@@ -1,29 +1,102 @@
-import { InstanceBase, runEntrypoint, InstanceStatus, SomeCompanionConfigField } from '@companion-module/base'
-import { GetConfigFields, type ModuleConfig } from './config.js'
+import {
+	InstanceBase,
+	runEntrypoint,
+	InstanceStatus,
+	SomeCompanionConfigField,
+	type CompanionVariableValues,
+} from '@companion-module/base'
+import { isEqual } from 'es-toolkit'
+import { mkdir, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import {
+	GetConfigFields,
+	GetKnownClocks,
+	GetMonitoredDomains,
+	GetProfile,
+	GetUnicastMasters,
+	type ModuleConfig,
+} from './config.js'
+import { checkProfileCompliance } from './profiles.js'
+import { ptpToTimecode, TimecodeRates } from './timecode.js'
+import { isValidTimeZone, ptpToEpochMs, TimeFormatter, utcOffset } from './time.js'
+import { MonitoredMessages, type MonitoredMessage } from './monitor.js'
+import type { MasterClaim } from './conflict.js'
+import type { ForeignClock } from './foreign.js'
+import { invalidKnownClocks, parseKnownClocks, type RogueMaster } from './rogue.js'
+import { previousScheduledTime, ptpTimeToNs, type PtpSchedule } from './scheduler.js'
+import {
+	EventHistory,
+	HISTORY_VARIABLES,
+	HistoryEventTypes,
+	type HistoryEventType,
+	type HistoryFormat,
+} from './history.js'
+import { managementIdName, ManagementId, type ClockDescription, type PortDataSet } from './management.js'
 import { UpdateVariableDefinitions } from './variables.js'
 import { UpgradeScripts } from './upgrades.js'
 import { UpdateActions } from './actions.js'
 import { UpdateFeedbacks } from './feedbacks.js'
-import { PTPv2Client } from './ptpv2.js'
+import { UpdatePresets } from './presets.js'
+import { PTPv2Client, type PtpTime } from './ptpv2.js'
 import { StatusManager } from './status.js'
+import {
+	lockingStatusName,
+	messageTypeName,
+	timeSourceName,
+	type GrandmasterDataset,
+	type SmpteSynchronizationMetadata,
+} from './messages.js'
+
+// feedbacks evaluated from the state of a domain
+const DOMAIN_FEEDBACKS = [
+	'isSynced',
+	'bmcaMismatch',
+	'messageHealth',
+	'masterConflict',
+	'offsetThreshold',
+	'grandmasterIdentity',
+	'masterChanged',
+	'clockClass',
+	'timeSource',
+	'syncAge',
+]
+
 export class ModuleInstance extends InstanceBase<ModuleConfig> {
 	config!: ModuleConfig // Setup in init()
 	client!: PTPv2Client
 	statusManager = new StatusManager(this)
+	profileViolations: string[] = []
+	private timecodeTimer: NodeJS.Timeout | undefined = undefined
+	private feedbackTimer: NodeJS.Timeout | undefined = undefined
+	private timeFormatter = new TimeFormatter()
+	//kept across config updates, so reconnecting does not lose the history
+	private history = new EventHistory()
+	private historySynced = false
+	private historyExport = ''
+	//schedules of the scheduledTime feedbacks by feedback id, applied again to a new client
+	private schedules: Map<string, { schedule: PtpSchedule; hold: number }> = new Map()
+	private holdTimers: Map<string, NodeJS.Timeout> = new Map()
 	constructor(internal: unknown) {
 		super(internal)
 	}
 
 	async init(config: ModuleConfig): Promise<void> {
+		this.config = config
 		this.updateActions() // export actions
 		this.updateFeedbacks() // export feedbacks
 		this.updateVariableDefinitions() // export variable definitions
+		this.updatePresets() // export presets
 		this.statusManager.updateStatus(InstanceStatus.Connecting)
 		this.configUpdated(config).catch(() => {})
 	}
 	// When module gets deleted
 	async destroy(): Promise<void> {
 		this.log('debug', `destroy ${this.id}`)
+		if (this.timecodeTimer) clearInterval(this.timecodeTimer)
+		if (this.feedbackTimer) clearInterval(this.feedbackTimer)
+		this.holdTimers.forEach((timer) => clearTimeout(timer))
+		this.holdTimers.clear()
 		this.client.destroy()
 	}
 
@@ -31,14 +104,54 @@ export class ModuleInstance extends InstanceBase<ModuleConfig> {
 		this.config = config
 		process.title = this.label
 
-		if (this.client) this.client.destroy()
+		if (this.client) {
+			//rebuilding the client is not a loss of sync, its last sync_changed is not logged or recorded
+			this.client.removeAllListeners()
+			this.client.destroy()
+		}
+		if (this.timecodeTimer) clearInterval(this.timecodeTimer)
+		if (this.feedbackTimer) clearInterval(this.feedbackTimer)
+		this.profileViolations = []
+		const timeZone = config.timeZone || 'UTC'
+		if (!isValidTimeZone(timeZone)) this.log('warn', `Unknown time zone ${timeZone}, using UTC`)
+		this.timeFormatter = new TimeFormatter(isValidTimeZone(timeZone) ? timeZone : 'UTC')
+		this.history.resize(config.historySize ?? 100)
+		const invalidClocks = config.rogueDetection ? invalidKnownClocks(config.knownClocks ?? '') : []
+		if (invalidClocks.length > 0) this.log('warn', `Ignoring invalid known clocks ${invalidClocks.join(', ')}`)
+		this.updateActions() // domain choices depend on config
+		this.updateFeedbacks() // domain choices depend on config
+		this.updateVariableDefinitions() // per-domain variables depend on config
+		this.updatePresets() // built from the feedbacks and variables
 
 		if (config.interface) {
 			try {
-				this.client = new PTPv2Client(config.interface, config.domain, config.interval)
+				this.client = new PTPv2Client(config.interface, GetMonitoredDomains(config), config.interval, {
+					delayMechanism: config.delayMechanism ?? 'E2E',
+					unicastMasters: GetUnicastMasters(config),
+					unicastDuration: config.unicastDuration ?? 300,
+					ipv6Scope: Number(config.ipv6Scope ?? 0xe),
+					statisticsWindow: config.statisticsWindow ?? 64,
+					stepThreshold: (config.stepThreshold ?? 1000) * 1000,
+					conflictWindow: (config.conflictWindow ?? 10) * 1000,
+					knownClocks: GetKnownClocks(config),
+					masterSelection: config.masterSelection ?? 'any',
+					lockedMaster: config.lockedMaster ?? '',
+				})
 				this.listenForClientEvents()
+				this.schedules.forEach(({ schedule }, id) => this.client.schedule(id, schedule))
+				this.checkProfile()
 				this.getVarValues()
-				this.statusManager.updateStatus(InstanceStatus.Ok)
+				this.startTimecode()
+				//feedbacks and variables that depend on elapsed time rather than on client events
+				this.feedbackTimer = setInterval(() => {
+					this.checkFeedbacks('masterChanged', 'syncAge')
+					this.setVariableValues({
+						...this.getScheduleVarValues(),
+						//the clock runs on between Syncs
+						...(this.client.last_sync == 0 ? {} : this.getTimeVarValues(this.client.ptp_time)),
+					})
+				}, 1000)
+				this.updateRunningStatus()
 			} catch (e) {
 				this.statusManager.updateStatus(InstanceStatus.UnknownError)
 				this.log('warn', `Could not initialise PTP client ${e}`)
@@ -50,36 +163,468 @@ export class ModuleInstance extends InstanceBase<ModuleConfig> {
 
 	private listenForClientEvents(): void {
 		this.client.on('ptp_master_changed', (ptp_master, master_address, sync) => {
-			this.log('info', `PTPv2 Master Changed: ${ptp_master} Address: ${master_address}`)
-			this.log(sync ? 'info' : 'warn', `PTP Sync Changed. ${sync ? 'Locked' : 'Unlocked'}`)
-			this.checkFeedbacks()
+			//competing masters flip the master on every Sync, the conflict is logged once instead
+			const conflict = this.client.master_conflict.length > 0
+			this.log(conflict ? 'debug' : 'info', `PTPv2 Master Changed: ${ptp_master} Address: ${master_address}`)
+			this.log(sync ? 'info' : conflict ? 'debug' : 'warn', `PTP Sync Changed. ${sync ? 'Locked' : 'Unlocked'}`)
+			if (!conflict)
+				this.recordEvent(
+					HistoryEventTypes.MasterChanged,
+					ptp_master == '' ? 'Master reset' : `Master ${ptp_master} (${master_address})`,
+					this.config.domain,
+				)
+			this.recordSync(sync)
+			this.checkFeedbacks('isSynced', 'masterChanged', 'grandmasterIdentity')
 			this.setVariableValues({ ptpMaster: ptp_master, ptpMasterAddress: master_address })
 		})
+		this.client.on('grandmaster_changed', (grandmaster, address) => {
+			if (grandmaster.grandmasterIdentity != this.getVariableValue('ptpGmIdentity'))
+				this.log('info', `PTPv2 Grandmaster: ${grandmaster.grandmasterIdentity} Announced by: ${address}`)
+			this.setVariableValues(this.getGrandmasterVarValues(grandmaster))
+			//UTC aligned schedules depend on the announced UTC offset
+			this.checkFeedbacks('scheduledTime')
+		})
+		this.client.on('smpte_metadata', (metadata, address) => {
+			this.log(
+				'debug',
+				`SMPTE metadata from ${address}: ${metadata.frameRateNumerator}/${metadata.frameRateDenominator} fps, ${lockingStatusName(metadata.masterLockingStatus)}`,
+			)
+			this.setVariableValues(this.getSmpteVarValues(metadata))
+			//local schedules depend on the local offset
+			this.checkFeedbacks('scheduledTime')
+		})
+		this.client.on('bmca_changed', (best, decidingAttribute) => {
+			if (best)
+				this.log('info', `BMCA best master: ${best.source} Address: ${best.address} Decided by: ${decidingAttribute}`)
+			this.setVariableValues(this.getBmcaVarValues())
+			this.checkFeedbacks('bmcaMismatch')
+		})
 		this.client.on('ptp_time_synced', (time, lastSync) => {
 			const syncTime = new Date(lastSync)
 			this.log('debug', `Time Synced ${time}. Timestamp of sync: ${syncTime.toISOString()}`)
-			this.setVariableValues({ ptpTimeS: time[0], ptpTimeNS: time[1], lastSync: syncTime.toISOString() })
-			this.statusManager.updateStatus(InstanceStatus.Ok)
+			this.setVariableValues({
+				ptpTimeS: time[0],
+				ptpTimeNS: time[1],
+				lastSync: syncTime.toISOString(),
+				...this.getTimeVarValues(time),
+				...this.getMessageVarValues(),
+				...this.getForeignMasterVarValues(),
+				...this.getStatisticsVarValues(),
+				...this.getServoVarValues(),
+			})
+			this.updateRunningStatus()
+			this.checkFeedbacks('messageHealth')
+		})
+		this.client.on('master_conflict', (claims, domain) => {
+			if (domain != this.config.domain) return
+			if (claims.length > 0) {
+				this.log('warn', `Master conflict on domain ${domain}: ${this.formatClaims(claims)}`)
+				if (!this.getVariableValue('ptpMasterConflict'))
+					this.recordEvent(HistoryEventTypes.MasterConflict, this.formatClaims(claims), domain)
+			} else {
+				this.log('info', `Master conflict on domain ${domain} resolved`)
+			}
+			this.setVariableValues({ ptpMasterConflict: this.formatClaims(claims) })
+			this.updateRunningStatus()
+		})
+		this.client.on('rogue_master', (rogue) => {
+			this.log('warn', `Rogue master on domain ${rogue.domain}: ${this.formatRogueMaster(rogue)}`)
+			this.recordEvent(HistoryEventTypes.RogueMaster, this.formatRogueMaster(rogue), rogue.domain)
+			this.setVariableValues(this.getRogueVarValues())
+			this.updateRunningStatus()
+			this.checkFeedbacks('rogueMaster')
+		})
+		this.client.on('scheduled_time', (id) => {
+			this.checkFeedbacksById(id)
+			const hold = this.schedules.get(id)?.hold ?? 0
+			if (hold <= 0) return
+			clearTimeout(this.holdTimers.get(id))
+			this.holdTimers.set(
+				id,
+				setTimeout(() => {
+					this.holdTimers.delete(id)
+					this.checkFeedbacksById(id)
+				}, hold),
+			)
+		})
+		this.client.on('foreign_master', (clock) => {
+			this.log('debug', `PTP clock: ${this.formatForeignClock(clock)}`)
+			this.setVariableValues(this.getForeignMasterVarValues())
+		})
+		this.client.on('management_response', (response) => {
+			const name = managementIdName(response.managementId)
+			if (response.error) {
+				this.log('warn', `Management ${name} from ${response.source} (${response.address}): ${response.error}`)
+			} else {
+				this.log(
+					'info',
+					`Management ${name} from ${response.source} (${response.address}): ${JSON.stringify(response.data)}`,
+				)
+			}
+			this.setVariableValues(this.getManagementVarValues())
+		})
+		this.client.on('message_missed', (type, domain) => {
+			if (domain != this.config.domain) return
+			const message: Record<MonitoredMessage, string> = {
+				Sync: 'Sync sequence gap',
+				Follow_Up: 'Follow_Up missing',
+				Announce: 'announceReceiptTimeout',
+				Delay_Resp: 'Delay_Req not answered',
+			}
+			this.log(type == 'Announce' || type == 'Delay_Resp' ? 'warn' : 'debug', `${message[type]} on domain ${domain}`)
+			this.setVariableValues(this.getMessageVarValues())
 		})
 		this.client.on('sync_changed', (sync) => {
 			this.log(sync ? 'info' : 'warn', `PTP Sync Changed. ${sync ? 'Locked' : 'Unlocked'}`)
-			this.checkFeedbacks()
+			this.recordSync(sync)
+			this.setVariableValues(this.getMessageVarValues())
+			this.checkFeedbacks('isSynced', 'syncAge')
+		})
+		this.client.on('pdelay_measured', (meanLinkDelay) => {
+			this.setVariableValues({ ptpMeanLinkDelay: Math.round(meanLinkDelay) })
+		})
+		this.client.on('unicast_grant', (grant) => {
+			if (grant.denied) {
+				this.log('warn', `Unicast ${messageTypeName(grant.messageType)} denied by ${grant.address}`)
+			} else {
+				this.log(
+					'debug',
+					`Unicast ${messageTypeName(grant.messageType)} granted by ${grant.address} for ${grant.duration}s`,
+				)
+			}
+			this.setVariableValues(this.getUnicastVarValues())
+		})
+		this.client.on('domain_updated', (domain) => {
+			if (this.config.multiDomain) this.setVariableValues(this.getDomainVarValues(domain))
+			if (domain == this.config.domain) this.checkProfile()
+			this.checkFeedbacks(...DOMAIN_FEEDBACKS)
+		})
+		this.client.on('domains', () => {
+			this.checkFeedbacks('domainSeen')
 		})
 		this.client.on('error', (err) => {
 			this.statusManager.updateStatus(InstanceStatus.UnknownError)
 			this.log('warn', `Error: ${JSON.stringify(err)}`)
+			this.recordEvent(HistoryEventTypes.Error, err.message)
 		})
 
 		this.client.on('close', (msg) => {
 			this.log('warn', msg)
+			this.recordEvent(HistoryEventTypes.Close, msg)
 			this.statusManager.updateStatus(InstanceStatus.Disconnected)
 		})
 		this.client.on('listening', (msg) => {
 			this.log('info', msg)
-			this.statusManager.updateStatus(InstanceStatus.Ok)
+			this.updateRunningStatus()
 		})
 	}
 
+	/**
+	 * Ok while running, or a warning listing what needs attention
+	 *
+	 */
+
+	private updateRunningStatus(): void {
+		const profile = GetProfile(this.config)
+		const warnings: string[] = []
+		const conflict = this.client.master_conflict
+		if (this.client.is_paused) warnings.push('Monitoring paused')
+		if (conflict.length > 0) warnings.push(`Master conflict: ${this.formatClaims(conflict)}`)
+		const rogues = this.client.rogue_masters
+		if (rogues.length > 0)
+			warnings.push(`Rogue master: ${rogues.map((rogue) => this.formatRogueMaster(rogue)).join(', ')}`)
+		if (profile && this.profileViolations.length > 0)
+			warnings.push(`Not ${profile.name} compliant: ${this.profileViolations.join(', ')}`)
+		if (warnings.length > 0) {
+			this.statusManager.updateStatus(InstanceStatus.UnknownWarning, warnings.join('; '))
+		} else {
+			this.statusManager.updateStatus(InstanceStatus.Ok)
+		}
+	}
+
+	/**
+	 * @returns Competing masters as identity (address), comma separated
+	 *
+	 */
+
+	private formatClaims(claims: MasterClaim[]): string {
+		return claims.map((claim) => `${claim.source} (${claim.address})`).join(', ')
+	}
+
+	/**
+	 * @returns Clock identity (address) of a rogue master
+	 *
+	 */
+
+	private formatRogueMaster(rogue: RogueMaster): string {
+		return `${rogue.clockIdentity} (${rogue.address})`
+	}
+
+	/**
+	 * @returns Port identity, address, domain, message counts and announced grandmaster of a clock
+	 *
+	 */
+
+	private formatForeignClock(clock: ForeignClock): string {
+		const messages = Object.entries(clock.messages)
+			.map(([type, count]) => `${type} ${count}`)
+			.join(', ')
+		const announce = clock.announce
+			? ` GM ${clock.announce.grandmasterIdentity} priority1 ${clock.announce.priority1} class ${clock.announce.clockClass} steps ${clock.announce.stepsRemoved}`
+			: ''
+		return `${clock.portIdentity} (${clock.address}) domain ${clock.domain} first seen ${new Date(clock.firstSeen).toISOString()} last seen ${new Date(clock.lastSeen).toISOString()} messages ${messages}${announce}`
+	}
+
+	/**
+	 * Make a domain the primary domain without recreating the client, and save it to the config
+	 *
+	 */
+
+	public switchDomain(domain: number): void {
+		const previous = this.config
+		const config = { ...this.config, domain }
+		// the client emits events for the new primary domain from setDomains, which read this.config
+		this.config = config
+		if (!this.client.setDomains(GetMonitoredDomains(config))) {
+			this.config = previous
+			this.log('warn', `Invalid domain ${domain}`)
+			return
+		}
+		this.saveConfig(config)
+		this.log('info', `Primary domain switched to ${domain}`)
+		this.updateActions()
+		this.updateFeedbacks()
+		this.updateVariableDefinitions()
+		this.updatePresets()
+		this.checkProfile()
+		this.getVarValues()
+		this.updateRunningStatus()
+	}
+
+	public setPaused(paused: boolean): void {
+		if (paused == this.client.is_paused) return
+		if (paused) {
+			this.client.pause()
+		} else {
+			this.client.resume()
+		}
+		this.log('info', `Monitoring ${paused ? 'paused' : 'resumed'}`)
+		this.setVariableValues({ ptpPaused: paused })
+		this.updateRunningStatus()
+		this.checkFeedbacks('isSynced', 'syncAge')
+	}
+
+	/**
+	 * Add the current master of a domain, or every rogue master, to the known clocks and save them to the config
+	 *
+	 */
+
+	public approveMaster(domain: number, rogues: boolean = false): void {
+		if (!this.config.rogueDetection) {
+			this.log('warn', 'Approve Master: rogue master detection is disabled')
+			return
+		}
+		let approved: string[] = []
+		if (rogues) {
+			approved = this.client.approveRogueMasters()
+		} else {
+			const clockIdentity = this.client.approveMaster(domain)
+			if (clockIdentity === undefined) {
+				this.log('warn', `Approve Master: no master on domain ${domain}`)
+				return
+			}
+			approved = [`${domain}:${clockIdentity}`]
+		}
+		// append to the configured list rather than rewriting it, so entries that do not parse are kept for the user to fix
+		const configured = this.config.knownClocks?.trim() ?? ''
+		const known = parseKnownClocks(configured)
+		const added = approved.filter((entry) => !known.includes(entry))
+		if (added.length > 0) {
+			this.config = { ...this.config, knownClocks: [configured, ...added].filter((text) => text != '').join(', ') }
+			this.saveConfig(this.config)
+		}
+		this.log('info', `Approved ${approved.length > 0 ? approved.join(', ') : 'no clocks'}`)
+		this.setVariableValues(this.getRogueVarValues())
+		this.updateRunningStatus()
+		this.checkFeedbacks('rogueMaster')
+	}
+
+	/**
+	 * Drop the rogue master alarms without approving the clocks
+	 *
+	 */
+
+	public clearRogueMasters(): void {
+		this.client.clearRogueMasters()
+		this.log('info', 'Rogue master alarms cleared')
+		this.setVariableValues(this.getRogueVarValues())
+		this.updateRunningStatus()
+		this.checkFeedbacks('rogueMaster')
+	}
+
+	/**
+	 * Schedule a scheduledTime feedback, the client re-evaluates it at each scheduled time
+	 * @param hold Time the feedback stays true after a scheduled time (ms), 0 to stay true
+	 *
+	 */
+
+	public setSchedule(id: string, schedule: PtpSchedule, hold: number): void {
+		const current = this.schedules.get(id)
+		if (current && isEqual(current.schedule, schedule)) {
+			current.hold = hold
+			return
+		}
+		this.schedules.set(id, { schedule, hold })
+		if (!this.client.schedule(id, schedule)) this.log('warn', `Invalid schedule ${JSON.stringify(schedule)}`)
+		this.setVariableValues(this.getScheduleVarValues())
+	}
+
+	public clearSchedule(id: string): void {
+		this.schedules.delete(id)
+		this.client?.unschedule(id)
+		clearTimeout(this.holdTimers.get(id))
+		this.holdTimers.delete(id)
+	}
+
+	/**
+	 * @returns true within the hold time of the last scheduled time of a feedback, false before the first measurement
+	 *
+	 */
+
+	public isScheduledTimeActive(id: string): boolean {
+		const entry = this.schedules.get(id)
+		if (entry === undefined || this.client.last_sync == 0) return false
+		const now = this.client.ptp_time
+		const previous = previousScheduledTime(entry.schedule, now)
+		if (previous === undefined) return false
+		return entry.hold <= 0 || ptpTimeToNs(now) - ptpTimeToNs(previous) < BigInt(Math.round(entry.hold * 1_000_000))
+	}
+
+	/**
+	 * Log every PTP clock heard, one line each
+	 *
+	 */
+
+	public logForeignMasters(): void {
+		const clocks = this.client.foreign_masters
+		this.log('info', `Foreign master table: ${clocks.length} clock${clocks.length == 1 ? '' : 's'}`)
+		clocks.forEach((clock) => this.log('info', this.formatForeignClock(clock)))
+	}
+
+	/**
+	 * Add an event to the history and update the history variables
+	 *
+	 */
+
+	private recordEvent(type: HistoryEventType, message: string, domain?: number): void {
+		this.history.add(type, message, domain)
+		this.setVariableValues(this.getHistoryVarValues())
+	}
+
+	/**
+	 * Record lock and loss of lock of the primary domain, a master change drops sync without a sync_changed event
+	 *
+	 */
+
+	private recordSync(sync: boolean): void {
+		if (sync == this.historySynced) return
+		this.historySynced = sync
+		this.recordEvent(
+			sync ? HistoryEventTypes.SyncLocked : HistoryEventTypes.SyncLost,
+			sync ? 'Locked' : 'Unlocked',
+			this.config.domain,
+		)
+	}
+
+	/**
+	 * Forget the event history and restart its counters
+	 *
+	 */
+
+	public clearHistory(): void {
+		this.history.clear()
+		this.log('info', 'Event history cleared')
+		this.setVariableValues(this.getHistoryVarValues())
+	}
+
+	/**
+	 * Write the event history to a timestamped file in the configured directory
+	 *
+	 */
+
+	public async exportHistory(format: HistoryFormat): Promise<void> {
+		const directory = this.config.historyDirectory?.trim() || os.homedir()
+		const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+		const file = path.join(directory, `ptp-history-${stamp}.${format}`)
+		try {
+			await mkdir(directory, { recursive: true })
+			await writeFile(file, this.history.export(format))
+		} catch (e) {
+			this.log('warn', `Could not export event history to ${file}: ${e}`)
+			return
+		}
+		this.historyExport = file
+		this.log('info', `Event history exported to ${file}`)
+		this.setVariableValues(this.getHistoryVarValues())
+	}
+
+	/**
+	 * Check the primary domain against the selected profile and report changes
+	 *
+	 */
+
+	private checkProfile(): void {
+		const profile = GetProfile(this.config)
+		const violations =
+			profile === undefined
+				? []
+				: checkProfileCompliance(profile, {
+						domain: this.config.domain,
+						delayMechanism: this.config.delayMechanism ?? 'E2E',
+						...this.client.message_intervals,
+					})
+		if (violations.join() != this.profileViolations.join()) {
+			this.profileViolations = violations
+			if (profile && violations.length > 0) {
+				this.log('warn', `Not ${profile.name} compliant: ${violations.join(', ')}`)
+			} else if (profile) {
+				this.log('info', `${profile.name} compliant`)
+			}
+			this.checkFeedbacks('profileCompliant')
+			this.updateRunningStatus()
+		}
+		this.setVariableValues(this.getProfileVarValues())
+	}
+
+	/**
+	 * Update the timecode variables every frame, at most 30 times a second
+	 *
+	 */
+
+	private startTimecode(): void {
+		if (this.timecodeTimer) clearInterval(this.timecodeTimer)
+		this.timecodeTimer = undefined
+		if (!this.config.timecode) return
+		const rate = TimecodeRates[this.config.timecodeRate] ?? TimecodeRates['25']
+		let previous = ''
+		this.timecodeTimer = setInterval(
+			() => {
+				if (this.client.last_sync == 0) return
+				const tc = ptpToTimecode(this.client.ptp_time, rate, this.utcOffset, (this.config.timecodeOffset ?? 0) * 3600)
+				if (tc.timecode == previous) return
+				previous = tc.timecode
+				this.setVariableValues({
+					timecode: tc.timecode,
+					hh: tc.hours,
+					mm: tc.minutes,
+					ss: tc.seconds,
+					frames: tc.frames,
+				})
+			},
+			Math.max(1000 / 30, (1000 * rate.denominator) / rate.numerator),
+		)
+	}
+
 	private getVarValues() {
 		const time = this.client.ptp_time
 		const ptp_master = this.client.ptp_master
@@ -88,10 +633,332 @@ export class ModuleInstance extends InstanceBase<ModuleConfig> {
 			ptpTimeS: this.client.last_sync == 0 ? undefined : time[0],
 			ptpTimeNS: this.client.last_sync == 0 ? undefined : time[1],
 			lastSync: this.client.last_sync == 0 ? '' : syncTime.toISOString(),
+			...this.getTimeVarValues(this.client.last_sync == 0 ? undefined : time),
 			ptpMaster: ptp_master[0],
 			ptpMasterAddress: ptp_master[1],
+			ptpMeanLinkDelay: this.client.mean_link_delay === undefined ? undefined : Math.round(this.client.mean_link_delay),
+			ptpClientIdentity: this.client.clock_identity,
+			ptpPaused: this.client.is_paused,
+			ptpMasterConflict: this.formatClaims(this.client.master_conflict),
+			...this.getGrandmasterVarValues(this.client.grandmaster),
+			...this.getSmpteVarValues(this.client.smpte_metadata),
+			...this.getProfileVarValues(),
+			...this.getMessageVarValues(),
+			...this.getBmcaVarValues(),
+			...this.getForeignMasterVarValues(),
+			...this.getManagementVarValues(),
+			...this.getHistoryVarValues(),
+			...this.getRogueVarValues(),
+			...this.getScheduleVarValues(),
+			...this.getUnicastVarValues(),
+			...this.getStatisticsVarValues(),
+			...this.getServoVarValues(),
+			...(this.config.multiDomain
+				? Object.assign({}, ...this.client.monitored_domains.map((domain) => this.getDomainVarValues(domain)))
+				: {}),
 		})
-		this.checkFeedbacks()
+		//a new client or primary domain; profileCompliant follows checkProfile
+		this.checkFeedbacks(...DOMAIN_FEEDBACKS, 'rogueMaster', 'domainSeen', 'scheduledTime')
+	}
+
+	/**
+	 * TAI - UTC announced by the grandmaster of the primary domain, or the configured fallback
+	 *
+	 */
+
+	public get utcOffset(): number {
+		return utcOffset(this.client.grandmaster, this.config.utcOffsetFallback ?? 37)
+	}
+
+	/**
+	 * Local time - UTC sent by a SMPTE ST 2059-2 grandmaster, or the offset of the configured time zone
+	 *
+	 */
+
+	public get localOffset(): number {
+		return this.client.smpte_metadata?.currentLocalOffset ?? this.timeFormatter.offset(Date.now())
+	}
+
+	/**
+	 * UTC and local time variables of a PTP time, plus the PTP time of the last sync
+	 * @param time undefined before the first sync
+	 *
+	 */
+
+	private getTimeVarValues(time: PtpTime | undefined): CompanionVariableValues {
+		const offset = this.utcOffset
+		const formatted = time === undefined ? undefined : this.timeFormatter.format(time, offset)
+		return {
+			ptpUtcOffset: offset,
+			ptpTimeUtc: formatted?.utc ?? '',
+			ptpTimeLocal: formatted?.local ?? '',
+			ptpDate: formatted?.date ?? '',
+			ptpTimeOfDay: formatted?.timeOfDay ?? '',
+			ptpEpochMs: formatted?.epochMs,
+			ptpLastSync: time === undefined ? '' : this.timeFormatter.format(this.client.last_sync_time, offset).utc,
+		}
+	}
+
+	private getDomainVarValues(domain: number): CompanionVariableValues {
+		const status = this.client.getDomainStatus(domain)
+		if (status === undefined) return {}
+		return {
+			[`ptpSynced_d${domain}`]: status.synced,
+			[`ptpMaster_d${domain}`]: status.ptpMaster,
+			[`ptpMasterAddress_d${domain}`]: status.ptpMasterAddress,
+			[`ptpGmIdentity_d${domain}`]: status.grandmaster?.grandmasterIdentity ?? '',
+			[`ptpTimeS_d${domain}`]: status.lastSync == 0 ? undefined : status.ptpTime[0],
+			[`ptpTimeNS_d${domain}`]: status.lastSync == 0 ? undefined : status.ptpTime[1],
+			[`lastSync_d${domain}`]: status.lastSync == 0 ? '' : new Date(status.lastSync).toISOString(),
+		}
+	}
+
+	private getServoVarValues(): CompanionVariableValues {
+		const servo = this.client.servo_status
+		return {
+			ptpServoState: servo.state,
+			ptpFrequency: Math.round(servo.frequency * 10) / 10,
+			ptpDrift: Math.round(servo.drift * 10) / 10,
+		}
+	}
+
+	private getStatisticsVarValues(): CompanionVariableValues {
+		const values: CompanionVariableValues = {}
+		const statistics = this.client.statistics
+		for (const [prefix, summary] of [
+			['ptpOffset', statistics.offset],
+			['ptpPathDelay', statistics.pathDelay],
+		] as const) {
+			const round = (value: number | undefined) => (value === undefined ? undefined : Math.round(value))
+			values[prefix] = round(summary.current)
+			values[`${prefix}Min`] = round(summary.min)
+			values[`${prefix}Max`] = round(summary.max)
+			values[`${prefix}Mean`] = round(summary.mean)
+			values[`${prefix}StdDev`] = round(summary.stdDev)
+		}
+		return values
+	}
+
+	private getUnicastVarValues(): CompanionVariableValues {
+		const grants = this.client.unicast_grants
+		return {
+			ptpUnicastGrants: grants
+				.map(
+					(grant) =>
+						`${grant.address} ${messageTypeName(grant.messageType)}: ${grant.granted ? 'granted' : grant.denied ? 'denied' : 'expired'}`,
+				)
+				.join('\n'),
+			ptpUnicastGranted: grants.filter((grant) => grant.granted).length,
+			ptpUnicastDenied: grants.filter((grant) => grant.denied).length,
+		}
+	}
+
+	private getBmcaVarValues(): CompanionVariableValues {
+		const [best, decidingAttribute] = this.client.bmca_best
+		return {
+			ptpBmcaBest: best?.source ?? '',
+			ptpBmcaBestAddress: best?.address ?? '',
+			ptpBmcaBestGrandmaster: best?.dataset.grandmasterIdentity ?? '',
+			ptpBmcaReason: best === undefined ? '' : decidingAttribute,
+			ptpBmcaForeignMasters: this.client.bmca_ranking.length,
+		}
+	}
+
+	/**
+	 * Foreign master table as JSON, plus the number of clocks, of masters (sending Sync or Announce) and of domains
+	 *
+	 */
+
+	private getForeignMasterVarValues(): CompanionVariableValues {
+		const clocks = this.client.foreign_masters
+		return {
+			ptpForeignMasterTable: JSON.stringify(clocks),
+			ptpForeignClocks: clocks.length,
+			ptpForeignMasters: clocks.filter((clock) => clock.messages.Sync || clock.messages.Announce).length,
+			ptpForeignDomains: new Set(clocks.map((clock) => clock.domain)).size,
+		}
+	}
+
+	/**
+	 * Nearest scheduled time in UTC and the seconds until it
+	 *
+	 */
+
+	private getScheduleVarValues(): CompanionVariableValues {
+		const next = this.client.scheduled_times[0]
+		if (next === undefined) return { ptpScheduleNext: '', ptpScheduleSecondsUntil: undefined, ptpSchedules: 0 }
+		const remaining = Number(ptpTimeToNs(next.time) - ptpTimeToNs(this.client.ptp_time)) / 1e9
+		return {
+			ptpScheduleNext: new Date(ptpToEpochMs(next.time, this.utcOffset)).toISOString(),
+			ptpScheduleSecondsUntil: Math.max(0, Math.round(remaining * 10) / 10),
+			ptpSchedules: this.schedules.size,
+		}
+	}
+
+	/**
+	 * Rogue masters as clock identity (address) on domain, and the known clocks
+	 *
+	 */
+
+	private getRogueVarValues(): CompanionVariableValues {
+		const rogues = this.client.rogue_masters
+		return {
+			ptpRogueMasters: rogues.map((rogue) => `${this.formatRogueMaster(rogue)} on domain ${rogue.domain}`).join(', '),
+			ptpRogueMasterCount: rogues.length,
+			ptpKnownClocks: this.client.known_clocks.join(', '),
+		}
+	}
+
+	/**
+	 * Latest events of the history, newest first, and the event counts since the history was cleared
+	 *
+	 */
+
+	private getHistoryVarValues(): CompanionVariableValues {
+		const events = this.history.events
+		const counts = this.history.counts
+		const values: CompanionVariableValues = {
+			ptpHistoryEvents: events.length,
+			ptpHistorySince: new Date(this.history.since).toISOString(),
+			ptpHistoryMasterChanges: counts.master_changed,
+			ptpHistorySyncLosses: counts.sync_lost,
+			ptpHistoryConflicts: counts.master_conflict,
+			ptpHistoryErrors: counts.error,
+			ptpHistoryCloses: counts.close,
+			ptpHistoryExport: this.historyExport,
+		}
+		for (let i = 0; i < HISTORY_VARIABLES; i++) {
+			const event = events[i]
+			values[`ptpHistory${i + 1}`] =
+				event === undefined ? '' : `${new Date(event.time).toISOString()} ${event.type} ${event.message}`
+		}
+		return values
+	}
+
+	/**
+	 * Latest management response, plus the latest dataset of each type as JSON and the user description,
+	 * product description and port state decoded from them
+	 *
+	 */
+
+	private getManagementVarValues(): CompanionVariableValues {
+		const responses = this.client.management_responses
+		const last = responses.at(-1)
+		const latest = (managementId: number) =>
+			responses.findLast((response) => response.managementId == managementId && response.data)?.data
+		const values: CompanionVariableValues = {
+			ptpMgmtSource: last?.source ?? '',
+			ptpMgmtAddress: last?.address ?? '',
+			ptpMgmtError: last?.error ?? '',
+		}
+		for (const [name, managementId] of Object.entries(ManagementId)) {
+			if (managementId == ManagementId.UserDescription) continue
+			const data = latest(managementId)
+			values[`ptpMgmt${name}`] = data === undefined ? '' : JSON.stringify(data)
+		}
+		const clock = latest(ManagementId.ClockDescription) as ClockDescription | undefined
+		const user = latest(ManagementId.UserDescription) ?? clock
+		values.ptpMgmtUserDescription = user && 'userDescription' in user ? user.userDescription : ''
+		values.ptpMgmtProductDescription = clock?.productDescription ?? ''
+		values.ptpMgmtPortState = (latest(ManagementId.PortDataSet) as PortDataSet | undefined)?.portState ?? ''
+		return values
+	}
+
+	private getGrandmasterVarValues(grandmaster: GrandmasterDataset | undefined): CompanionVariableValues {
+		return {
+			ptpGmIdentity: grandmaster?.grandmasterIdentity ?? '',
+			ptpGmPriority1: grandmaster?.priority1,
+			ptpGmPriority2: grandmaster?.priority2,
+			ptpGmClockClass: grandmaster?.clockClass,
+			ptpGmClockAccuracy:
+				grandmaster === undefined ? undefined : `0x${grandmaster.clockAccuracy.toString(16).padStart(2, '0')}`,
+			ptpGmVariance: grandmaster?.offsetScaledLogVariance,
+			ptpGmStepsRemoved: grandmaster?.stepsRemoved,
+			ptpGmUtcOffset: grandmaster?.currentUtcOffset,
+			ptpGmTimeSource: grandmaster === undefined ? '' : timeSourceName(grandmaster.timeSource),
+		}
+	}
+
+	/**
+	 * Measured rate, advertised rate and miss counter per message type, e.g. ptpRateFollowUp
+	 *
+	 */
+
+	private getMessageVarValues(): CompanionVariableValues {
+		const rates = this.client.message_rates
+		const ignored = this.client.getDomainStatus(this.config.domain)?.ignored ?? {}
+		return Object.assign(
+			{
+				ptpIgnoredSync: ignored.Sync ?? 0,
+				ptpIgnoredFollowUp: ignored.Follow_Up ?? 0,
+				ptpIgnoredDelayResp: ignored.Delay_Resp ?? 0,
+			},
+			...MonitoredMessages.map((type) => {
+				const name = type.replace('_', '')
+				const { rate, expectedRate, missed } = rates[type]
+				return {
+					[`ptpRate${name}`]: rate === undefined ? undefined : Math.round(rate * 100) / 100,
+					[`ptpExpectedRate${name}`]: expectedRate,
+					[`ptpMissed${name}`]: missed,
+				}
+			}),
+		)
+	}
+
+	private getProfileVarValues(): CompanionVariableValues {
+		const intervals = this.client.message_intervals
+		return {
+			ptpProfile: GetProfile(this.config)?.name ?? '',
+			ptpProfileCompliant: this.profileViolations.length == 0,
+			ptpProfileViolations: this.profileViolations.join(', '),
+			ptpLogSyncInterval: intervals.logSyncInterval,
+			ptpLogAnnounceInterval: intervals.logAnnounceInterval,
+			ptpLogMinDelayReqInterval: intervals.logMinDelayReqInterval,
+		}
+	}
+
+	private getSmpteVarValues(metadata: SmpteSynchronizationMetadata | undefined): CompanionVariableValues {
+		if (metadata === undefined) {
+			return {
+				ptpSmpteFrameRate: undefined,
+				ptpSmpteDropFrame: undefined,
+				ptpSmpteColorFrame: undefined,
+				ptpSmpteLockingStatus: '',
+				ptpSmpteLocalOffset: undefined,
+				ptpSmpteDaylightSaving: undefined,
+				ptpSmpteNextJump: '',
+				ptpSmpteJumpSeconds: undefined,
+				ptpSmpteNextJam: '',
+				ptpSmptePreviousJam: '',
+				ptpSmpteLeapSecondJump: undefined,
+			}
+		}
+		const frameRate =
+			metadata.frameRateDenominator == 0 ? 0 : metadata.frameRateNumerator / metadata.frameRateDenominator
+		return {
+			ptpSmpteFrameRate: Math.round(frameRate * 100) / 100,
+			ptpSmpteDropFrame: metadata.dropFrame,
+			ptpSmpteColorFrame: metadata.colorFrameIdentification,
+			ptpSmpteLockingStatus: lockingStatusName(metadata.masterLockingStatus),
+			ptpSmpteLocalOffset: metadata.currentLocalOffset,
+			ptpSmpteDaylightSaving: metadata.daylightSaving,
+			ptpSmpteNextJump: this.formatSmpteTime(metadata.timeOfNextJump, metadata.currentLocalOffset),
+			ptpSmpteJumpSeconds: metadata.jumpSeconds,
+			ptpSmpteNextJam: this.formatSmpteTime(metadata.timeOfNextJam, metadata.currentLocalOffset),
+			ptpSmptePreviousJam: this.formatSmpteTime(metadata.timeOfPreviousJam, metadata.previousJamLocalOffset),
+			ptpSmpteLeapSecondJump: metadata.leapSecondJump,
+		}
+	}
+
+	/**
+	 * Local date and time of a SMPTE event, which is PTP time plus the local offset
+	 * @returns YYYY-MM-DD hh:mm:ss, or an empty string if no event is scheduled
+	 *
+	 */
+
+	private formatSmpteTime(ptpSeconds: number, localOffset: number): string {
+		if (ptpSeconds == 0) return ''
+		return new Date((ptpSeconds + localOffset) * 1000).toISOString().slice(0, 19).replace('T', ' ')
 	}
 
 	// Return config fields for web config
@@ -110,6 +977,10 @@ export class ModuleInstance extends InstanceBase<ModuleConfig> {
 	updateVariableDefinitions(): void {
 		UpdateVariableDefinitions(this)
 	}
+
+	updatePresets(): void {
+		UpdatePresets(this)
+	}
 }
 
 runEntrypoint(ModuleInstance, UpgradeScripts)
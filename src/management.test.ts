@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import { managementIdName, parseManagementData, parseManagementResponse, ManagementId } from './management.js'
+
+/** Management RESPONSE carrying one TLV */
+const makeResponse = (tlvType: number, value: Buffer, action = 2): Buffer => {
+	const buf = Buffer.alloc(48 + 4 + value.length)
+	buf.writeUInt8(0x0d, 0)
+	buf.writeUInt8(2, 1)
+	buf.writeUInt8(action, 46)
+	buf.writeUInt16BE(tlvType, 48)
+	buf.writeUInt16BE(value.length, 50)
+	value.copy(buf, 52)
+	return buf
+}
+
+const text = (value: string): Buffer => Buffer.concat([Buffer.from([value.length]), Buffer.from(value)])
+
+describe('parseManagementData', () => {
+	it('decodes DEFAULT_DATA_SET', () => {
+		const data = Buffer.alloc(20)
+		data.writeUInt8(0x03, 0)
+		data.writeUInt16BE(1, 2)
+		data.writeUInt8(128, 4)
+		data.writeUInt8(6, 5)
+		data.writeUInt8(0x21, 6)
+		data.writeUInt16BE(0x4e5d, 7)
+		data.writeUInt8(127, 9)
+		Buffer.from('0011223344556677', 'hex').copy(data, 10)
+		data.writeUInt8(127, 18)
+		expect(parseManagementData(ManagementId.DefaultDataSet, data)).toEqual({
+			twoStep: true,
+			slaveOnly: true,
+			numberPorts: 1,
+			priority1: 128,
+			clockClass: 6,
+			clockAccuracy: 0x21,
+			offsetScaledLogVariance: 0x4e5d,
+			priority2: 127,
+			clockIdentity: '00-11-22-33-44-55-66-77',
+			domainNumber: 127,
+		})
+	})
+
+	it('decodes CURRENT_DATA_SET time intervals', () => {
+		const data = Buffer.alloc(18)
+		data.writeUInt16BE(1, 0)
+		data.writeBigInt64BE(BigInt(-150 * 65536), 2)
+		data.writeBigInt64BE(BigInt(2500 * 65536), 10)
+		expect(parseManagementData(ManagementId.CurrentDataSet, data)).toEqual({
+			stepsRemoved: 1,
+			offsetFromMaster: -150,
+			meanPathDelay: 2500,
+		})
+	})
+
+	it('decodes PORT_DATA_SET', () => {
+		const data = Buffer.alloc(26)
+		Buffer.from('00112233445566770001', 'hex').copy(data, 0)
+		data.writeUInt8(6, 10)
+		data.writeInt8(-3, 11)
+		data.writeInt8(1, 20)
+		data.writeUInt8(3, 21)
+		data.writeInt8(-3, 22)
+		data.writeUInt8(1, 23)
+		data.writeUInt8(0x02, 25)
+		expect(parseManagementData(ManagementId.PortDataSet, data)).toMatchObject({
+			portIdentity: '00-11-22-33-44-55-66-77:1',
+			portState: 'MASTER',
+			logMinDelayReqInterval: -3,
+			logAnnounceInterval: 1,
+			announceReceiptTimeout: 3,
+			logSyncInterval: -3,
+			delayMechanism: 'E2E',
+			versionNumber: 2,
+		})
+	})
+
+	it('decodes CLOCK_DESCRIPTION', () => {
+		const data = Buffer.concat([
+			Buffer.from([0x80, 0x00]),
+			text('IEEE 802.3'),
+			Buffer.from([0x00, 0x06, 0x00, 0x1d, 0xc1, 0x12, 0x34, 0x56]),
+			Buffer.from([0x00, 0x01, 0x00, 0x04, 192, 168, 1, 10]),
+			Buffer.from([0x00, 0x1d, 0xc1, 0x00]),
+			text('Grandmaster;GM-1;123'),
+			text('1;2;3'),
+			text('Rack 4'),
+			Buffer.from('000e0c000102', 'hex'),
+		])
+		expect(parseManagementData(ManagementId.ClockDescription, data)).toEqual({
+			clockType: ['ordinary clock'],
+			physicalLayerProtocol: 'IEEE 802.3',
+			physicalAddress: '00:1d:c1:12:34:56',
+			protocolAddress: '192.168.1.10',
+			manufacturerIdentity: '001DC1',
+			productDescription: 'Grandmaster;GM-1;123',
+			revisionData: '1;2;3',
+			userDescription: 'Rack 4',
+			profileIdentity: '00-0e-0c-00-01-02',
+		})
+	})
+
+	it('decodes USER_DESCRIPTION', () => {
+		expect(parseManagementData(ManagementId.UserDescription, text('Studio A GM'))).toEqual({
+			userDescription: 'Studio A GM',
+		})
+	})
+
+	it('rejects truncated datasets', () => {
+		expect(parseManagementData(ManagementId.DefaultDataSet, Buffer.alloc(19))).toBeUndefined()
+		expect(parseManagementData(ManagementId.UserDescription, Buffer.from([10, 0x41]))).toBeUndefined()
+		expect(parseManagementData(ManagementId.ClockDescription, Buffer.from([0x80, 0x00, 20]))).toBeUndefined()
+	})
+})
+
+describe('parseManagementResponse', () => {
+	it('decodes a MANAGEMENT TLV', () => {
+		const value = Buffer.concat([Buffer.from([0x00, 0x02]), text('GM')])
+		expect(parseManagementResponse(makeResponse(0x0001, value))).toEqual({
+			managementId: ManagementId.UserDescription,
+			data: { userDescription: 'GM' },
+			error: undefined,
+		})
+	})
+
+	it('decodes a MANAGEMENT_ERROR_STATUS TLV', () => {
+		const value = Buffer.concat([Buffer.from([0x00, 0x06, 0x20, 0x04, 0, 0, 0, 0]), text('read only')])
+		expect(parseManagementResponse(makeResponse(0x0002, value))).toEqual({
+			managementId: ManagementId.PortDataSet,
+			data: undefined,
+			error: 'NOT_SUPPORTED: read only',
+		})
+	})
+
+	it('ignores other actions', () => {
+		expect(parseManagementResponse(makeResponse(0x0001, Buffer.from([0x00, 0x02, 0]), 0))).toBeUndefined()
+	})
+
+	it('names management ids', () => {
+		expect(managementIdName(0x2004)).toBe('PortDataSet')
+		expect(managementIdName(0x2005)).toBe('0x2005')
+	})
+})
@@ -0,0 +1,353 @@
+import { formatClockIdentity, formatPortIdentity, readTlvs, MANAGEMENT_HEADER_LENGTH, TlvType } from './messages.js'
+
+// managementId values of the datasets that can be read (IEEE 1588-2008 Table 40)
+export const ManagementId = {
+	DefaultDataSet: 0x2000,
+	CurrentDataSet: 0x2001,
+	ParentDataSet: 0x2002,
+	TimePropertiesDataSet: 0x2003,
+	PortDataSet: 0x2004,
+	ClockDescription: 0x0001,
+	UserDescription: 0x0002,
+} as const
+
+export type ManagementIdName = keyof typeof ManagementId
+
+// actionField values (IEEE 1588-2008 Table 38)
+export const ManagementAction = {
+	Get: 0,
+	Set: 1,
+	Response: 2,
+	Command: 3,
+	Acknowledge: 4,
+} as const
+
+// managementErrorId values (IEEE 1588-2008 Table 72)
+const managementErrors: Record<number, string> = {
+	0x0001: 'RESPONSE_TOO_BIG',
+	0x0002: 'NO_SUCH_ID',
+	0x0003: 'WRONG_LENGTH',
+	0x0004: 'WRONG_VALUE',
+	0x0005: 'NOT_SETABLE',
+	0x0006: 'NOT_SUPPORTED',
+	0xfffe: 'GENERAL_ERROR',
+}
+
+// portState enumeration (IEEE 1588-2008 Table 8)
+const portStates: Record<number, string> = {
+	1: 'INITIALIZING',
+	2: 'FAULTY',
+	3: 'DISABLED',
+	4: 'LISTENING',
+	5: 'PRE_MASTER',
+	6: 'MASTER',
+	7: 'PASSIVE',
+	8: 'UNCALIBRATED',
+	9: 'SLAVE',
+}
+
+// delayMechanism enumeration (IEEE 1588-2008 Table 9)
+const delayMechanisms: Record<number, string> = {
+	0x01: 'E2E',
+	0x02: 'P2P',
+	0xfe: 'DISABLED',
+}
+
+// clockType bits (IEEE 1588-2008 Table 42)
+const clockTypes: [bit: number, name: string][] = [
+	[0x8000, 'ordinary clock'],
+	[0x4000, 'boundary clock'],
+	[0x2000, 'P2P transparent clock'],
+	[0x1000, 'E2E transparent clock'],
+	[0x0800, 'management node'],
+]
+
+export interface DefaultDataSet {
+	twoStep: boolean
+	slaveOnly: boolean
+	numberPorts: number
+	priority1: number
+	clockClass: number
+	clockAccuracy: number
+	offsetScaledLogVariance: number
+	priority2: number
+	clockIdentity: string
+	domainNumber: number
+}
+
+export interface CurrentDataSet {
+	stepsRemoved: number
+	/** ns */
+	offsetFromMaster: number
+	/** ns */
+	meanPathDelay: number
+}
+
+export interface ParentDataSet {
+	parentPortIdentity: string
+	parentStats: boolean
+	observedParentOffsetScaledLogVariance: number
+	observedParentClockPhaseChangeRate: number
+	grandmasterPriority1: number
+	grandmasterClockClass: number
+	grandmasterClockAccuracy: number
+	grandmasterOffsetScaledLogVariance: number
+	grandmasterPriority2: number
+	grandmasterIdentity: string
+}
+
+export interface TimePropertiesDataSet {
+	currentUtcOffset: number
+	leap61: boolean
+	leap59: boolean
+	currentUtcOffsetValid: boolean
+	ptpTimescale: boolean
+	timeTraceable: boolean
+	frequencyTraceable: boolean
+	timeSource: number
+}
+
+export interface PortDataSet {
+	portIdentity: string
+	portState: string
+	logMinDelayReqInterval: number
+	/** ns */
+	peerMeanPathDelay: number
+	logAnnounceInterval: number
+	announceReceiptTimeout: number
+	logSyncInterval: number
+	delayMechanism: string
+	logMinPdelayReqInterval: number
+	versionNumber: number
+}
+
+export interface ClockDescription {
+	clockType: string[]
+	physicalLayerProtocol: string
+	physicalAddress: string
+	protocolAddress: string
+	manufacturerIdentity: string
+	productDescription: string
+	revisionData: string
+	userDescription: string
+	profileIdentity: string
+}
+
+export interface UserDescription {
+	userDescription: string
+}
+
+export type ManagementData =
+	| DefaultDataSet
+	| CurrentDataSet
+	| ParentDataSet
+	| TimePropertiesDataSet
+	| PortDataSet
+	| ClockDescription
+	| UserDescription
+
+export interface ManagementTlv {
+	managementId: number
+	/** undefined if the device answered with a MANAGEMENT_ERROR_STATUS TLV or the dataset is not decoded */
+	data: ManagementData | undefined
+	/** managementErrorId name and displayData of a MANAGEMENT_ERROR_STATUS TLV */
+	error: string | undefined
+}
+
+/**
+ * @returns Name of a managementId, e.g. DefaultDataSet, or its hex representation if not supported
+ *
+ */
+
+export const managementIdName = (managementId: number): string =>
+	Object.entries(ManagementId).find(([, id]) => id == managementId)?.[0] ??
+	`0x${managementId.toString(16).padStart(4, '0')}`
+
+/**
+ * TimeInterval, a scaled nanosecond value (ns * 2^16)
+ *
+ */
+
+const readTimeInterval = (data: Buffer, offset: number): number => Number(data.readBigInt64BE(offset)) / 65536
+
+/**
+ * PTPText: a length octet followed by UTF-8 text
+ * @returns Text and the offset after it
+ *
+ */
+
+const readText = (data: Buffer, offset: number): [text: string, next: number] => {
+	const length = data.readUInt8(offset)
+	if (offset + 1 + length > data.length) throw new RangeError('PTPText exceeds the TLV')
+	return [data.toString('utf8', offset + 1, offset + 1 + length), offset + 1 + length]
+}
+
+/**
+ * PortAddress (IEEE 1588-2008 §5.3.6), formatted for its networkProtocol
+ *
+ */
+
+const formatAddress = (networkProtocol: number, address: Buffer): string => {
+	if (networkProtocol == 1 && address.length == 4) return [...address].join('.')
+	if (networkProtocol == 2 && address.length == 16)
+		return (address.toString('hex').match(/.{4}/g) ?? []).map((group) => group.replace(/^0+(?=.)/, '')).join(':')
+	return (address.toString('hex').match(/.{2}/g) ?? []).join(':')
+}
+
+const parseClockDescription = (data: Buffer): ClockDescription | undefined => {
+	try {
+		const clockType = data.readUInt16BE(0)
+		const [physicalLayerProtocol, physicalAddressStart] = readText(data, 2)
+		const physicalAddressLength = data.readUInt16BE(physicalAddressStart)
+		const protocolStart = physicalAddressStart + 2 + physicalAddressLength
+		const physicalAddress = data.subarray(physicalAddressStart + 2, protocolStart)
+		const networkProtocol = data.readUInt16BE(protocolStart)
+		const addressLength = data.readUInt16BE(protocolStart + 2)
+		const manufacturerStart = protocolStart + 4 + addressLength
+		const protocolAddress = data.subarray(protocolStart + 4, manufacturerStart)
+		if (manufacturerStart + 4 > data.length) return undefined
+		const [productDescription, revisionStart] = readText(data, manufacturerStart + 4)
+		const [revisionData, userStart] = readText(data, revisionStart)
+		const [userDescription, profileStart] = readText(data, userStart)
+		return {
+			clockType: clockTypes.filter(([bit]) => (clockType & bit) == bit).map(([, name]) => name),
+			physicalLayerProtocol,
+			physicalAddress: formatAddress(3, physicalAddress),
+			protocolAddress: formatAddress(networkProtocol, protocolAddress),
+			manufacturerIdentity: data.toString('hex', manufacturerStart, manufacturerStart + 3).toUpperCase(),
+			productDescription,
+			revisionData,
+			userDescription,
+			profileIdentity: (data.toString('hex', profileStart, profileStart + 6).match(/.{2}/g) ?? []).join('-'),
+		}
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Decode the dataField of a MANAGEMENT TLV
+ * @returns undefined if the dataField is too short or the managementId is not supported
+ *
+ */
+
+export const parseManagementData = (managementId: number, data: Buffer): ManagementData | undefined => {
+	switch (managementId) {
+		case ManagementId.DefaultDataSet: {
+			if (data.length < 20) return undefined
+			const flags = data.readUInt8(0)
+			return {
+				twoStep: (flags & 0x01) == 0x01,
+				slaveOnly: (flags & 0x02) == 0x02,
+				numberPorts: data.readUInt16BE(2),
+				priority1: data.readUInt8(4),
+				clockClass: data.readUInt8(5),
+				clockAccuracy: data.readUInt8(6),
+				offsetScaledLogVariance: data.readUInt16BE(7),
+				priority2: data.readUInt8(9),
+				clockIdentity: formatClockIdentity(data, 10),
+				domainNumber: data.readUInt8(18),
+			}
+		}
+		case ManagementId.CurrentDataSet:
+			if (data.length < 18) return undefined
+			return {
+				stepsRemoved: data.readUInt16BE(0),
+				offsetFromMaster: readTimeInterval(data, 2),
+				meanPathDelay: readTimeInterval(data, 10),
+			}
+		case ManagementId.ParentDataSet:
+			if (data.length < 32) return undefined
+			return {
+				parentPortIdentity: formatPortIdentity(data, 0),
+				parentStats: (data.readUInt8(10) & 0x01) == 0x01,
+				observedParentOffsetScaledLogVariance: data.readUInt16BE(12),
+				observedParentClockPhaseChangeRate: data.readInt32BE(14),
+				grandmasterPriority1: data.readUInt8(18),
+				grandmasterClockClass: data.readUInt8(19),
+				grandmasterClockAccuracy: data.readUInt8(20),
+				grandmasterOffsetScaledLogVariance: data.readUInt16BE(21),
+				grandmasterPriority2: data.readUInt8(23),
+				grandmasterIdentity: formatClockIdentity(data, 24),
+			}
+		case ManagementId.TimePropertiesDataSet: {
+			if (data.length < 4) return undefined
+			const flags = data.readUInt8(2)
+			return {
+				currentUtcOffset: data.readInt16BE(0),
+				leap61: (flags & 0x01) == 0x01,
+				leap59: (flags & 0x02) == 0x02,
+				currentUtcOffsetValid: (flags & 0x04) == 0x04,
+				ptpTimescale: (flags & 0x08) == 0x08,
+				timeTraceable: (flags & 0x10) == 0x10,
+				frequencyTraceable: (flags & 0x20) == 0x20,
+				timeSource: data.readUInt8(3),
+			}
+		}
+		case ManagementId.PortDataSet: {
+			if (data.length < 26) return undefined
+			const portState = data.readUInt8(10)
+			const delayMechanism = data.readUInt8(23)
+			return {
+				portIdentity: formatPortIdentity(data, 0),
+				portState: portStates[portState] ?? `${portState}`,
+				logMinDelayReqInterval: data.readInt8(11),
+				peerMeanPathDelay: readTimeInterval(data, 12),
+				logAnnounceInterval: data.readInt8(20),
+				announceReceiptTimeout: data.readUInt8(21),
+				logSyncInterval: data.readInt8(22),
+				delayMechanism: delayMechanisms[delayMechanism] ?? `${delayMechanism}`,
+				logMinPdelayReqInterval: data.readInt8(24),
+				versionNumber: data.readUInt8(25) & 0x0f,
+			}
+		}
+		case ManagementId.ClockDescription:
+			return parseClockDescription(data)
+		case ManagementId.UserDescription:
+			try {
+				return { userDescription: readText(data, 0)[0] }
+			} catch {
+				return undefined
+			}
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Decode the MANAGEMENT or MANAGEMENT_ERROR_STATUS TLV of a management RESPONSE message
+ * @returns undefined if the message is not a response or carries neither TLV
+ *
+ */
+
+export const parseManagementResponse = (buffer: Buffer): ManagementTlv | undefined => {
+	if (buffer.length < MANAGEMENT_HEADER_LENGTH || (buffer.readUInt8(46) & 0x0f) != ManagementAction.Response)
+		return undefined
+	const tlv = readTlvs(buffer, MANAGEMENT_HEADER_LENGTH)[0]
+	if (tlv === undefined) return undefined
+	const { tlvType, offset, length } = tlv
+	if (tlvType == TlvType.Management && length >= 2) {
+		const managementId = buffer.readUInt16BE(offset)
+		return {
+			managementId,
+			data: parseManagementData(managementId, buffer.subarray(offset + 2, offset + length)),
+			error: undefined,
+		}
+	}
+	if (tlvType == TlvType.ManagementErrorStatus && length >= 8) {
+		const errorId = buffer.readUInt16BE(offset)
+		let displayData = ''
+		try {
+			displayData = readText(buffer.subarray(offset, offset + length), 8)[0]
+		} catch {
+			//displayData is optional
+		}
+		const name = managementErrors[errorId] ?? `0x${errorId.toString(16).padStart(4, '0')}`
+		return {
+			managementId: buffer.readUInt16BE(offset + 2),
+			data: undefined,
+			error: displayData == '' ? name : `${name}: ${displayData}`,
+		}
+	}
+	return undefined
+}
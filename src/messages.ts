@@ -0,0 +1,302 @@
+import type { PtpTime } from './ptpv2.js'
+
+// flagField bits (IEEE 1588-2008 §13.3.2.6), read as a big endian UInt16 from bytes 6-7
+export const Flags = {
+	Leap61: 0x0001,
+	Leap59: 0x0002,
+	CurrentUtcOffsetValid: 0x0004,
+	PtpTimescale: 0x0008,
+	TimeTraceable: 0x0010,
+	FrequencyTraceable: 0x0020,
+	TwoStep: 0x0200,
+	Unicast: 0x0400,
+} as const
+
+export const ANNOUNCE_LENGTH = 64
+export const DELAY_REQ_LENGTH = 44
+export const PDELAY_LENGTH = 54
+export const SIGNALING_HEADER_LENGTH = 44
+export const MANAGEMENT_HEADER_LENGTH = 48
+// header plus a MANAGEMENT TLV without dataField
+export const MANAGEMENT_LENGTH = 54
+
+// TLV types (IEEE 1588-2008 §14.1.1)
+export const TlvType = {
+	Management: 0x0001,
+	ManagementErrorStatus: 0x0002,
+	OrganizationExtension: 0x0003,
+	RequestUnicastTransmission: 0x0004,
+	GrantUnicastTransmission: 0x0005,
+} as const
+
+// SMPTE ST 2059-2 §9: synchronization metadata organization extension TLV
+const SMPTE_OUI = '6897e8'
+const SMPTE_SM_SUBTYPE = '000001'
+const SMPTE_SM_LENGTH = 48
+
+const messageTypes: Record<number, string> = {
+	0x00: 'Sync',
+	0x01: 'Delay_Req',
+	0x02: 'Pdelay_Req',
+	0x03: 'Pdelay_Resp',
+	0x08: 'Follow_Up',
+	0x09: 'Delay_Resp',
+	0x0a: 'Pdelay_Resp_Follow_Up',
+	0x0b: 'Announce',
+	0x0c: 'Signaling',
+	0x0d: 'Management',
+}
+
+// timeSource enumeration (IEEE 1588-2008 §7.6.2.6)
+export const TimeSources: Record<number, string> = {
+	0x10: 'ATOMIC_CLOCK',
+	0x20: 'GPS',
+	0x30: 'TERRESTRIAL_RADIO',
+	0x40: 'PTP',
+	0x50: 'NTP',
+	0x60: 'HAND_SET',
+	0x90: 'OTHER',
+	0xa0: 'INTERNAL_OSCILLATOR',
+}
+
+// masterLockingStatus enumeration (SMPTE ST 2059-2 §9.2.2)
+const lockingStatuses: Record<number, string> = {
+	0: 'NOT_IN_USE',
+	1: 'FREE_RUN',
+	2: 'COLD_LOCKING',
+	3: 'WARM_LOCKING',
+	4: 'LOCKED',
+}
+
+/**
+ * Grandmaster attributes as advertised in an Announce message
+ *
+ */
+
+export interface GrandmasterDataset {
+	grandmasterIdentity: string
+	priority1: number
+	priority2: number
+	clockClass: number
+	clockAccuracy: number
+	offsetScaledLogVariance: number
+	stepsRemoved: number
+	currentUtcOffset: number
+	currentUtcOffsetValid: boolean
+	ptpTimescale: boolean
+	timeSource: number
+}
+
+/**
+ * Format an 8 byte clock identity as aa-bb-cc-dd-ee-ff-00-11
+ * @param buffer Message buffer
+ * @param offset Byte offset of the clock identity
+ *
+ */
+
+export const formatClockIdentity = (buffer: Buffer, offset: number): string =>
+	buffer
+		.toString('hex', offset, offset + 8)
+		.match(/.{2}/g)
+		?.join('-') ?? ''
+
+/**
+ * Format a 10 byte port identity as aa-bb-cc-dd-ee-ff-00-11:1
+ * @param buffer Message buffer
+ * @param offset Byte offset of the port identity
+ *
+ */
+
+export const formatPortIdentity = (buffer: Buffer, offset: number): string =>
+	`${formatClockIdentity(buffer, offset)}:${buffer.readUInt16BE(offset + 8)}`
+
+/**
+ * Parse a port identity formatted as aa-bb-cc-dd-ee-ff-00-11:1
+ * @returns 10 byte port identity, undefined if the text is not a port identity
+ *
+ */
+
+export const parsePortIdentity = (text: string): Buffer | undefined => {
+	const match = /^([0-9a-f]{2}(?:-[0-9a-f]{2}){7}):(\d{1,5})$/i.exec(text.trim())
+	if (match === null || Number(match[2]) > 0xffff) return undefined
+	const buffer = Buffer.alloc(10)
+	Buffer.from(match[1].replaceAll('-', ''), 'hex').copy(buffer)
+	buffer.writeUInt16BE(Number(match[2]), 8)
+	return buffer
+}
+
+/**
+ * Read a 10 byte PTP timestamp (48 bit seconds, 32 bit nanoseconds)
+ * @param buffer Message buffer
+ * @param offset Byte offset of the timestamp
+ *
+ */
+
+export const readTimestamp = (buffer: Buffer, offset: number = 34): PtpTime => [
+	buffer.readUInt16BE(offset) * 4294967296 + buffer.readUInt32BE(offset + 2),
+	buffer.readUInt32BE(offset + 6),
+]
+
+/**
+ * Read the correctionField (bytes 8-15), a scaled nanosecond value (ns * 2^16)
+ * @returns Correction in nanoseconds
+ *
+ */
+
+export const readCorrection = (buffer: Buffer): number => Number(buffer.readBigInt64BE(8)) / 65536
+
+/**
+ * Decode the body of an Announce message
+ * @returns undefined if the buffer is too short
+ *
+ */
+
+export const parseAnnounce = (buffer: Buffer): GrandmasterDataset | undefined => {
+	if (buffer.length < ANNOUNCE_LENGTH) return undefined
+	const flags = buffer.readUInt16BE(6)
+	return {
+		grandmasterIdentity: formatClockIdentity(buffer, 53),
+		priority1: buffer.readUInt8(47),
+		priority2: buffer.readUInt8(52),
+		clockClass: buffer.readUInt8(48),
+		clockAccuracy: buffer.readUInt8(49),
+		offsetScaledLogVariance: buffer.readUInt16BE(50),
+		stepsRemoved: buffer.readUInt16BE(61),
+		currentUtcOffset: buffer.readInt16BE(44),
+		currentUtcOffsetValid: (flags & Flags.CurrentUtcOffsetValid) == Flags.CurrentUtcOffsetValid,
+		ptpTimescale: (flags & Flags.PtpTimescale) == Flags.PtpTimescale,
+		timeSource: buffer.readUInt8(63),
+	}
+}
+
+/**
+ * Walk the TLVs of a message
+ * @param start Byte offset of the first TLV
+ * @returns Type, value offset and length of each complete TLV
+ *
+ */
+
+export const readTlvs = (buffer: Buffer, start: number): { tlvType: number; offset: number; length: number }[] => {
+	const tlvs: { tlvType: number; offset: number; length: number }[] = []
+	let offset = start
+	while (offset + 4 <= buffer.length) {
+		const tlvType = buffer.readUInt16BE(offset)
+		const length = buffer.readUInt16BE(offset + 2)
+		if (offset + 4 + length > buffer.length) break
+		tlvs.push({ tlvType, offset: offset + 4, length })
+		offset += 4 + length
+	}
+	return tlvs
+}
+
+/**
+ * GRANT_UNICAST_TRANSMISSION TLV (IEEE 1588-2008 §16.1.4.2)
+ *
+ */
+
+export interface UnicastGrantTlv {
+	messageType: number
+	logInterMessagePeriod: number
+	durationField: number
+	renewalInvited: boolean
+}
+
+/**
+ * Decode the GRANT_UNICAST_TRANSMISSION TLVs of a Signaling message
+ *
+ */
+
+export const parseGrantTlvs = (buffer: Buffer): UnicastGrantTlv[] =>
+	readTlvs(buffer, SIGNALING_HEADER_LENGTH)
+		.filter(({ tlvType, length }) => tlvType == TlvType.GrantUnicastTransmission && length >= 8)
+		.map(({ offset }) => ({
+			messageType: buffer.readUInt8(offset) >> 4,
+			logInterMessagePeriod: buffer.readInt8(offset + 1),
+			durationField: buffer.readUInt32BE(offset + 2),
+			renewalInvited: (buffer.readUInt8(offset + 7) & 0x01) == 0x01,
+		}))
+
+/**
+ * Synchronization metadata TLV (SMPTE ST 2059-2 §9.2).
+ * Times are PTP seconds, local time is PTP time plus the local offset.
+ *
+ */
+
+export interface SmpteSynchronizationMetadata {
+	frameRateNumerator: number
+	frameRateDenominator: number
+	masterLockingStatus: number
+	dropFrame: boolean
+	colorFrameIdentification: boolean
+	currentLocalOffset: number
+	jumpSeconds: number
+	timeOfNextJump: number
+	timeOfNextJam: number
+	timeOfPreviousJam: number
+	previousJamLocalOffset: number
+	daylightSaving: boolean
+	daylightSavingAtNextJump: boolean
+	daylightSavingAtPreviousJam: boolean
+	leapSecondJump: boolean
+}
+
+/**
+ * Find and decode the SMPTE synchronization metadata TLV of an Announce or Management message
+ * @param start Byte offset of the first TLV
+ * @returns undefined if the message does not carry the TLV
+ *
+ */
+
+export const parseSmpteTlv = (buffer: Buffer, start: number): SmpteSynchronizationMetadata | undefined => {
+	const tlv = readTlvs(buffer, start).find(
+		({ tlvType, offset, length }) =>
+			tlvType == TlvType.OrganizationExtension &&
+			length >= SMPTE_SM_LENGTH &&
+			buffer.toString('hex', offset, offset + 3) == SMPTE_OUI &&
+			buffer.toString('hex', offset + 3, offset + 6) == SMPTE_SM_SUBTYPE,
+	)
+	if (tlv === undefined) return undefined
+	const offset = tlv.offset + 6
+	const timeAddressFlags = buffer.readUInt8(offset + 9)
+	const daylightSaving = buffer.readUInt8(offset + 40)
+	return {
+		frameRateNumerator: buffer.readUInt32BE(offset),
+		frameRateDenominator: buffer.readUInt32BE(offset + 4),
+		masterLockingStatus: buffer.readUInt8(offset + 8),
+		dropFrame: (timeAddressFlags & 0x01) == 0x01,
+		colorFrameIdentification: (timeAddressFlags & 0x02) == 0x02,
+		currentLocalOffset: buffer.readInt32BE(offset + 10),
+		jumpSeconds: buffer.readInt32BE(offset + 14),
+		timeOfNextJump: buffer.readUIntBE(offset + 18, 6),
+		timeOfNextJam: buffer.readUIntBE(offset + 24, 6),
+		timeOfPreviousJam: buffer.readUIntBE(offset + 30, 6),
+		previousJamLocalOffset: buffer.readInt32BE(offset + 36),
+		daylightSaving: (daylightSaving & 0x01) == 0x01,
+		daylightSavingAtNextJump: (daylightSaving & 0x02) == 0x02,
+		daylightSavingAtPreviousJam: (daylightSaving & 0x04) == 0x04,
+		leapSecondJump: (buffer.readUInt8(offset + 41) & 0x01) == 0x01,
+	}
+}
+
+/**
+ * @returns Name of a PTP messageType
+ *
+ */
+
+export const messageTypeName = (messageType: number): string =>
+	messageTypes[messageType] ?? `0x${messageType.toString(16).padStart(2, '0')}`
+
+/**
+ * @returns Name of a timeSource value, or its hex representation if not enumerated
+ *
+ */
+
+export const timeSourceName = (timeSource: number): string =>
+	TimeSources[timeSource] ?? `0x${timeSource.toString(16).padStart(2, '0')}`
+
+/**
+ * @returns Name of a SMPTE masterLockingStatus value
+ *
+ */
+
+export const lockingStatusName = (status: number): string => lockingStatuses[status] ?? `${status}`
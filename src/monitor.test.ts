@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { MessageMonitor } from './monitor.js'
+
+describe('MessageMonitor', () => {
+	it('measures the rate and compares it with the advertised rate', () => {
+		const monitor = new MessageMonitor()
+		for (let i = 0; i < 5; i++) monitor.arrival('Sync', -3, i * 125)
+		expect(monitor.rates.Sync).toMatchObject({ count: 5, rate: 8, expectedRate: 8, withinTolerance: true })
+	})
+
+	it('flags a rate far from the advertised rate', () => {
+		const monitor = new MessageMonitor()
+		for (let i = 0; i < 5; i++) monitor.arrival('Announce', -2, i * 1000)
+		expect(monitor.rates.Announce).toMatchObject({ rate: 1, expectedRate: 4, withinTolerance: false })
+	})
+
+	it('does not expect a rate when none is advertised, or for Delay_Resp', () => {
+		const monitor = new MessageMonitor()
+		monitor.arrival('Sync', 0x7f, 0)
+		monitor.arrival('Delay_Resp', 0, 0)
+		expect(monitor.rates.Sync.expectedRate).toBeUndefined()
+		expect(monitor.rates.Delay_Resp.expectedRate).toBeUndefined()
+		expect(monitor.rates.Sync.rate).toBeUndefined()
+	})
+
+	it('counts Sync sequence gaps, but not restarts', () => {
+		const monitor = new MessageMonitor()
+		expect(monitor.sync(1, false)).toEqual([])
+		expect(monitor.sync(4, false, 50)).toEqual(['Sync'])
+		expect(monitor.sync(40000, false)).toEqual([])
+		expect(monitor.sync(0xfffe, false)).toEqual([])
+		expect(monitor.sync(1, false, 60)).toEqual(['Sync'])
+		expect(monitor.rates.Sync).toMatchObject({ missed: 4, lastMissed: 60 })
+	})
+
+	it('counts a missing Follow_Up when the next Sync arrives', () => {
+		const monitor = new MessageMonitor()
+		monitor.sync(1, true)
+		monitor.followUp(1)
+		expect(monitor.sync(2, true)).toEqual([])
+		expect(monitor.sync(3, true, 1234)).toEqual(['Follow_Up'])
+		expect(monitor.rates.Follow_Up).toMatchObject({ missed: 1, lastMissed: 1234 })
+	})
+
+	it('counts unanswered Delay_Reqs', () => {
+		const monitor = new MessageMonitor()
+		expect(monitor.delayReqSent()).toBe(false)
+		monitor.delayResp()
+		expect(monitor.delayReqSent()).toBe(false)
+		expect(monitor.delayReqSent()).toBe(true)
+		expect(monitor.rates.Delay_Resp.missed).toBe(1)
+	})
+
+	it('clears counters', () => {
+		const monitor = new MessageMonitor()
+		monitor.announceTimeout()
+		monitor.clear()
+		expect(monitor.rates.Announce).toMatchObject({ count: 0, missed: 0, lastMissed: 0 })
+	})
+})
@@ -0,0 +1,157 @@
+export type MonitoredMessage = 'Sync' | 'Follow_Up' | 'Announce' | 'Delay_Resp'
+
+export const MonitoredMessages: MonitoredMessage[] = ['Sync', 'Follow_Up', 'Announce', 'Delay_Resp']
+
+// arrivals kept per message type to measure the rate
+const RATE_WINDOW = 16
+// measured rates further than this fraction from the advertised rate are flagged
+const RATE_TOLERANCE = 0.5
+// larger sequence jumps are treated as a master restart rather than lost messages
+const MAX_SEQUENCE_GAP = 1000
+
+export interface MessageRate {
+	count: number
+	/** Measured rate (messages/s), undefined until two messages have arrived */
+	rate: number | undefined
+	/** Rate advertised in the logMessageInterval of the messages (messages/s), undefined if not advertised */
+	expectedRate: number | undefined
+	/** Messages missed: Sync sequence gaps, missing Follow_Ups, announceReceiptTimeouts or unanswered Delay_Reqs */
+	missed: number
+	/** Date.now() of the last miss, 0 if none */
+	lastMissed: number
+	withinTolerance: boolean
+}
+
+interface MessageRecord {
+	arrivals: number[]
+	count: number
+	logMessageInterval: number | undefined
+	missed: number
+	lastMissed: number
+}
+
+/**
+ * Measures the arrival rate of the messages of the master and counts messages that went missing
+ *
+ */
+
+export class MessageMonitor {
+	#records: Map<MonitoredMessage, MessageRecord> = new Map()
+	#syncSequence: number | undefined = undefined
+	#pendingFollowUp: number | undefined = undefined
+	#delayReqPending: boolean = false
+
+	constructor() {
+		this.clear()
+	}
+
+	/**
+	 * Record the arrival of a message
+	 * @param logMessageInterval logMessageInterval from the header, 0x7f if not advertised
+	 *
+	 */
+
+	public arrival(type: MonitoredMessage, logMessageInterval: number, now: number = Date.now()): void {
+		const record = this.record(type)
+		record.arrivals.push(now)
+		if (record.arrivals.length > RATE_WINDOW) record.arrivals.shift()
+		record.count++
+		record.logMessageInterval = logMessageInterval == 0x7f ? undefined : logMessageInterval
+	}
+
+	/**
+	 * Count gaps in the Sync sequence and, for two-step masters, a Follow_Up that never arrived
+	 * @returns Message types that went missing
+	 *
+	 */
+
+	public sync(sequence: number, twoStep: boolean, now: number = Date.now()): MonitoredMessage[] {
+		const missing: MonitoredMessage[] = []
+		if (this.#syncSequence !== undefined) {
+			const gap = (sequence - this.#syncSequence - 1 + 0x10000) % 0x10000
+			if (gap > 0 && gap < MAX_SEQUENCE_GAP) {
+				this.miss('Sync', now, gap)
+				missing.push('Sync')
+			}
+		}
+		this.#syncSequence = sequence
+		if (this.#pendingFollowUp !== undefined) {
+			this.miss('Follow_Up', now)
+			missing.push('Follow_Up')
+		}
+		this.#pendingFollowUp = twoStep ? sequence : undefined
+		return missing
+	}
+
+	public followUp(sequence: number): void {
+		if (sequence == this.#pendingFollowUp) this.#pendingFollowUp = undefined
+	}
+
+	/**
+	 * @returns true if the previous Delay_Req was never answered
+	 *
+	 */
+
+	public delayReqSent(now: number = Date.now()): boolean {
+		const unanswered = this.#delayReqPending
+		if (unanswered) this.miss('Delay_Resp', now)
+		this.#delayReqPending = true
+		return unanswered
+	}
+
+	public delayResp(): void {
+		this.#delayReqPending = false
+	}
+
+	public announceTimeout(now: number = Date.now()): void {
+		this.miss('Announce', now)
+	}
+
+	public clear(): void {
+		MonitoredMessages.forEach((type) =>
+			this.#records.set(type, {
+				arrivals: [],
+				count: 0,
+				logMessageInterval: undefined,
+				missed: 0,
+				lastMissed: 0,
+			}),
+		)
+		this.#syncSequence = undefined
+		this.#pendingFollowUp = undefined
+		this.#delayReqPending = false
+	}
+
+	private record(type: MonitoredMessage): MessageRecord {
+		return this.#records.get(type)!
+	}
+
+	private miss(type: MonitoredMessage, now: number, count: number = 1): void {
+		const record = this.record(type)
+		record.missed += count
+		record.lastMissed = now
+	}
+
+	/**
+	 * @returns Measured and advertised rates and miss counters per message type
+	 *
+	 */
+
+	public get rates(): Record<MonitoredMessage, MessageRate> {
+		return Object.fromEntries(
+			MonitoredMessages.map((type) => {
+				const { arrivals, count, logMessageInterval, missed, lastMissed } = this.record(type)
+				const span = arrivals.length > 1 ? arrivals[arrivals.length - 1] - arrivals[0] : 0
+				const rate = span > 0 ? ((arrivals.length - 1) * 1000) / span : undefined
+				//Delay_Resp follow our Delay_Req, their logMessageInterval is the minimum request interval
+				const expectedRate =
+					type == 'Delay_Resp' || logMessageInterval === undefined ? undefined : Math.pow(2, -logMessageInterval)
+				const withinTolerance =
+					rate === undefined ||
+					expectedRate === undefined ||
+					Math.abs(rate - expectedRate) <= expectedRate * RATE_TOLERANCE
+				return [type, { count, rate, expectedRate, missed, lastMissed, withinTolerance }]
+			}),
+		) as Record<MonitoredMessage, MessageRate>
+	}
+}
@@ -0,0 +1,141 @@
+import {
+	combineRgb,
+	type CompanionFeedbackDefinition,
+	type CompanionOptionValues,
+	type CompanionPresetDefinitions,
+	type CompanionPresetFeedback,
+} from '@companion-module/base'
+import type { ModuleInstance } from './main.js'
+import { GetMonitoredDomains } from './config.js'
+import { GetFeedbackDefinitions } from './feedbacks.js'
+import { GetVariableDefinitions } from './variables.js'
+
+/**
+ * Option values of a feedback at the defaults of its definition
+ *
+ */
+
+const defaultOptions = (definition: CompanionFeedbackDefinition): CompanionOptionValues =>
+	Object.fromEntries(definition.options.map((option) => [option.id, 'default' in option ? option.default : undefined]))
+
+/**
+ * Presets built from the feedback and variable definitions, so tiles only reference what is defined
+ * and pick up the names, default options and default styles of the definitions
+ *
+ */
+
+export function GetPresetDefinitions(self: ModuleInstance): CompanionPresetDefinitions {
+	const feedbackDefinitions = GetFeedbackDefinitions(self)
+	const variableNames = new Map(GetVariableDefinitions(self).map((variable) => [variable.variableId, variable.name]))
+	const presets: CompanionPresetDefinitions = {}
+
+	/**
+	 * Feedback with the default options and style of its definition, empty if the feedback is not defined
+	 *
+	 */
+
+	const feedback = (
+		feedbackId: string,
+		options: CompanionOptionValues = {},
+		isInverted: boolean = false,
+	): CompanionPresetFeedback[] => {
+		const definition = feedbackDefinitions[feedbackId]
+		if (definition === undefined) return []
+		return [
+			{
+				feedbackId,
+				options: { ...defaultOptions(definition), ...options },
+				style: definition.type == 'boolean' ? definition.defaultStyle : undefined,
+				isInverted,
+			},
+		]
+	}
+
+	/**
+	 * Tile showing a title above the values of variables, skipped if a variable is not defined
+	 *
+	 */
+
+	const tile = (
+		presetId: string,
+		category: string,
+		title: string,
+		variableIds: string[],
+		feedbacks: CompanionPresetFeedback[],
+	): void => {
+		if (variableIds.some((variableId) => !variableNames.has(variableId))) return
+		presets[presetId] = {
+			type: 'button',
+			category,
+			name: `${title}: ${variableIds.map((variableId) => variableNames.get(variableId)).join(', ')}`,
+			style: {
+				text: [title, ...variableIds.map((variableId) => `$(${self.label}:${variableId})`)]
+					.filter((line) => line != '')
+					.join('\\n'),
+				size: 'auto',
+				color: combineRgb(255, 255, 255),
+				bgcolor: combineRgb(0, 0, 0),
+			},
+			feedbacks,
+			steps: [{ down: [], up: [] }],
+		}
+	}
+
+	tile(
+		'syncStatus',
+		'Status',
+		'PTP',
+		['ptpServoState', 'ptpOffset'],
+		[...feedback('isSynced', {}, true), ...feedback('messageHealth')],
+	)
+	tile(
+		'grandmaster',
+		'Grandmaster',
+		'GM',
+		['ptpGmIdentity', 'ptpMasterAddress'],
+		[...feedback('bmcaMismatch'), ...feedback('masterConflict')],
+	)
+	tile('grandmasterQuality', 'Grandmaster', 'GM', ['ptpGmClockClass', 'ptpGmTimeSource'], feedback('clockClass'))
+	tile('houseClock', 'Time', '', ['ptpTimeOfDay', 'ptpDate'], feedback('isSynced', {}, true))
+	tile('timecode', 'Time', '', ['timecode'], feedback('isSynced', {}, true))
+	tile('syncAge', 'Sync Age', 'Last Sync', ['ptpLastSync'], feedback('syncAge'))
+
+	//in multi-domain mode each domain has its own suffixed variables
+	const domainVariable = (variableId: string, domain: number): string =>
+		variableNames.has(`${variableId}_d${domain}`) ? `${variableId}_d${domain}` : variableId
+	for (const domain of self.config ? GetMonitoredDomains(self.config) : []) {
+		tile(
+			`domain${domain}`,
+			'Domains',
+			`Domain ${domain}`,
+			[domainVariable('ptpMasterAddress', domain), domainVariable('ptpGmIdentity', domain)],
+			[...feedback('isSynced', { domain }, true), ...feedback('masterConflict', { domain })],
+		)
+	}
+
+	tile('schedule', 'Schedule', 'Next', ['ptpScheduleSecondsUntil'], feedback('scheduledTime'))
+
+	//one tile per boolean feedback, showing its default style when it is on
+	for (const [feedbackId, definition] of Object.entries(feedbackDefinitions)) {
+		if (definition?.type != 'boolean' || feedbackId == 'scheduledTime') continue
+		presets[`alarm_${feedbackId}`] = {
+			type: 'button',
+			category: 'Alarms',
+			name: definition.name,
+			style: {
+				text: definition.name.replace(/^PTP /, ''),
+				size: 'auto',
+				color: combineRgb(255, 255, 255),
+				bgcolor: combineRgb(0, 0, 0),
+			},
+			feedbacks: feedback(feedbackId),
+			steps: [{ down: [], up: [] }],
+		}
+	}
+
+	return presets
+}
+
+export function UpdatePresets(self: ModuleInstance): void {
+	self.setPresetDefinitions(GetPresetDefinitions(self))
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { checkProfileCompliance, PtpProfiles, type ProfileObservation } from './profiles.js'
+
+const observe = (opts: Partial<ProfileObservation> = {}): ProfileObservation => ({
+	domain: 127,
+	delayMechanism: 'E2E',
+	logSyncInterval: -3,
+	logAnnounceInterval: -2,
+	logMinDelayReqInterval: -3,
+	...opts,
+})
+
+describe('checkProfileCompliance', () => {
+	it('accepts the ST 2059-2 defaults', () => {
+		expect(checkProfileCompliance(PtpProfiles.st2059, observe())).toEqual([])
+	})
+
+	it('does not check intervals that have not been observed', () => {
+		const observed = observe({ logSyncInterval: undefined, logMinDelayReqInterval: undefined })
+		expect(checkProfileCompliance(PtpProfiles.st2059, observed)).toEqual([])
+	})
+
+	it('reports the domain', () => {
+		expect(checkProfileCompliance(PtpProfiles.st2059, observe({ domain: 0 }))).toEqual(['domain 0 is not 127'])
+	})
+
+	it('reports a delay mechanism the profile does not use', () => {
+		const violations = checkProfileCompliance(PtpProfiles.default, observe({ domain: 0, delayMechanism: 'P2P' }))
+		expect(violations).toContain('P2P delay mechanism not used by IEEE 1588 Default (Delay Request-Response)')
+	})
+
+	it.each([
+		['logSyncInterval', { logSyncInterval: 0, logMinDelayReqInterval: 0 }, 'logSyncInterval 0 outside -7..-1'],
+		['logAnnounceInterval', { logAnnounceInterval: 2 }, 'logAnnounceInterval 2 outside -3..1'],
+		['logMinDelayReqInterval', { logMinDelayReqInterval: 5 }, 'logMinDelayReqInterval 5 outside -7..4'],
+	])('reports %s out of range', (_interval, opts, violation) => {
+		expect(checkProfileCompliance(PtpProfiles.st2059, observe(opts))).toContain(violation)
+	})
+
+	it('checks logMinDelayReqInterval against logSyncInterval', () => {
+		expect(checkProfileCompliance(PtpProfiles.st2059, observe({ logMinDelayReqInterval: -4 }))).toEqual([
+			'logMinDelayReqInterval -4 not within logSyncInterval +0..+5',
+		])
+	})
+
+	it('only applies the relative delay request rule to profiles that have it', () => {
+		const observed = observe({ domain: 0, logSyncInterval: 1, logAnnounceInterval: 1, logMinDelayReqInterval: -3 })
+		expect(checkProfileCompliance(PtpProfiles.aes67, observed)).toEqual([])
+	})
+})
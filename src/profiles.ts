@@ -0,0 +1,100 @@
+import type { DelayMechanism, PtpMessageIntervals } from './ptpv2.js'
+
+export type PtpProfileId = 'default' | 'st2059' | 'aes67' | 'aesr16'
+
+type Range = [min: number, max: number]
+
+/**
+ * Default domain and attribute ranges a PTP profile permits, log intervals are log2 seconds
+ *
+ */
+
+export interface PtpProfile {
+	name: string
+	domain: number
+	delayMechanisms: DelayMechanism[]
+	logSyncInterval: Range
+	logAnnounceInterval: Range
+	logMinDelayReqInterval: Range
+	/** Permitted logMinDelayReqInterval relative to logSyncInterval */
+	delayReqAboveSync?: Range
+}
+
+export const PtpProfiles: Record<PtpProfileId, PtpProfile> = {
+	// IEEE 1588-2008 Annex J.3
+	default: {
+		name: 'IEEE 1588 Default (Delay Request-Response)',
+		domain: 0,
+		delayMechanisms: ['E2E'],
+		logSyncInterval: [-1, 1],
+		logAnnounceInterval: [0, 4],
+		logMinDelayReqInterval: [0, 5],
+	},
+	// SMPTE ST 2059-2 §6
+	st2059: {
+		name: 'SMPTE ST 2059-2',
+		domain: 127,
+		delayMechanisms: ['E2E', 'P2P'],
+		logSyncInterval: [-7, -1],
+		logAnnounceInterval: [-3, 1],
+		logMinDelayReqInterval: [-7, 4],
+		delayReqAboveSync: [0, 5],
+	},
+	// AES67 Annex A media profile
+	aes67: {
+		name: 'AES67 Media Profile',
+		domain: 0,
+		delayMechanisms: ['E2E', 'P2P'],
+		logSyncInterval: [-4, 1],
+		logAnnounceInterval: [0, 4],
+		logMinDelayReqInterval: [-3, 5],
+	},
+	// AES-R16, the intersection of the AES67 and ST 2059-2 ranges
+	aesr16: {
+		name: 'AES-R16 (AES67 / ST 2059-2 Interoperability)',
+		domain: 0,
+		delayMechanisms: ['E2E'],
+		logSyncInterval: [-4, -1],
+		logAnnounceInterval: [0, 1],
+		logMinDelayReqInterval: [-3, 4],
+		delayReqAboveSync: [0, 5],
+	},
+}
+
+export interface ProfileObservation extends PtpMessageIntervals {
+	domain: number
+	delayMechanism: DelayMechanism
+}
+
+const outside = ([min, max]: Range, value: number): boolean => value < min || value > max
+
+/**
+ * Check configured and observed traffic against a profile.
+ * Intervals that have not been observed yet are not checked.
+ * @returns Description of each violation, empty when compliant
+ *
+ */
+
+export const checkProfileCompliance = (profile: PtpProfile, observed: ProfileObservation): string[] => {
+	const violations: string[] = []
+	if (observed.domain != profile.domain) violations.push(`domain ${observed.domain} is not ${profile.domain}`)
+	if (!profile.delayMechanisms.includes(observed.delayMechanism))
+		violations.push(`${observed.delayMechanism} delay mechanism not used by ${profile.name}`)
+	const intervals = ['logSyncInterval', 'logAnnounceInterval', 'logMinDelayReqInterval'] as const
+	for (const interval of intervals) {
+		const value = observed[interval]
+		if (value !== undefined && outside(profile[interval], value))
+			violations.push(`${interval} ${value} outside ${profile[interval].join('..')}`)
+	}
+	const { logSyncInterval, logMinDelayReqInterval } = observed
+	if (
+		profile.delayReqAboveSync &&
+		logSyncInterval !== undefined &&
+		logMinDelayReqInterval !== undefined &&
+		outside(profile.delayReqAboveSync, logMinDelayReqInterval - logSyncInterval)
+	)
+		violations.push(
+			`logMinDelayReqInterval ${logMinDelayReqInterval} not within logSyncInterval +${profile.delayReqAboveSync.join('..+')}`,
+		)
+	return violations
+}
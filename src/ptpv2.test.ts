@@ -1,4 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import os from 'os'
+import type { PtpTime } from './ptpv2.js'
 //import type { PtpTime } from './ptpv2.ts'
 
 // ---------------------------------------------------------------------------
@@ -21,6 +23,7 @@ class MockSocket {
 		setImmediate(() => this.emit('listening'))
 	})
 	addMembership = vi.fn()
+	dropMembership = vi.fn()
 	send = vi.fn((_buf: Buffer, _port: number, _addr: string, cb?: (err: Error | null) => void) => {
 		cb?.(null)
 	})
@@ -45,7 +48,7 @@ let mockSockets: MockSocket[] = []
 
 vi.mock('dgram', () => ({
 	default: {
-		createSocket: vi.fn(() => {
+		createSocket: vi.fn((_options: { type: string }) => {
 			const s = new MockSocket()
 			mockSockets.push(s)
 			return s
@@ -57,6 +60,9 @@ vi.mock('dgram', () => ({
 // Import AFTER mock is set up so the module picks up the fake dgram
 // ---------------------------------------------------------------------------
 const { PTPv2Client } = await import('./ptpv2.js')
+const { clockIdentityFromMac } = await import('./identity.js')
+const { ptpToTimecode, TimecodeRates } = await import('./timecode.js')
+const dgram = (await import('dgram')).default
 
 // ---------------------------------------------------------------------------
 // Buffer builders
@@ -73,34 +79,40 @@ const { PTPv2Client } = await import('./ptpv2.js')
  *   4  : domain
  *   5  : reserved
  *   6-7: flags (BE)
+ *   8-15: correctionField (BE int64, ns * 2^16)
  *  20-27: source clock identity (8 bytes)
  *  30-31: sequence (BE)
  *  34-35: ts seconds high (BE uint16)
  *  36-39: ts seconds low  (BE uint32)
  *  40-43: ts nanoseconds  (BE uint32)
+ *  44-53: requestingPortIdentity (responses only, 10 bytes)
  */
 const makeSyncBuffer = ({
 	type = 0x00,
 	version = 2,
 	domain = 0,
 	flags = 0x0000,
+	correction = 0,
 	source = '112233445566aabb',
 	sequence = 1,
 	tsSecondsHigh = 0,
 	tsSecondsLow = 0,
 	tsNanoseconds = 0,
 	length = 44,
+	requesting = '',
 }: {
 	type?: number
 	version?: number
 	domain?: number
 	flags?: number
+	correction?: number
 	source?: string
 	sequence?: number
 	tsSecondsHigh?: number
 	tsSecondsLow?: number
 	tsNanoseconds?: number
 	length?: number
+	requesting?: string
 } = {}): Buffer => {
 	const buf = Buffer.alloc(Math.max(length, 44), 0)
 	buf.writeUInt8(type & 0x0f, 0)
@@ -108,17 +120,147 @@ const makeSyncBuffer = ({
 	buf.writeUInt16BE(length, 2)
 	buf.writeUInt8(domain, 4)
 	buf.writeUInt16BE(flags, 6)
+	buf.writeBigInt64BE(BigInt(Math.round(correction * 65536)), 8)
 	Buffer.from(source, 'hex').copy(buf, 20)
 	buf.writeUInt16BE(sequence, 30)
 	buf.writeUInt16BE(tsSecondsHigh, 34)
 	buf.writeUInt32BE(tsSecondsLow, 36)
 	buf.writeUInt32BE(tsNanoseconds, 40)
+	Buffer.from(requesting, 'hex').copy(buf, 44)
 	return buf
 }
 
 const makeFollowUpBuffer = (opts: Parameters<typeof makeSyncBuffer>[0] = {}) => makeSyncBuffer({ ...opts, type: 0x08 })
 
-const makeDelayRespBuffer = (opts: Parameters<typeof makeSyncBuffer>[0] = {}) => makeSyncBuffer({ ...opts, type: 0x09 })
+/** Port identity of the last request of the given type the current client sent, as hex */
+const lastRequestIdentity = (type: number): string => {
+	const calls = eventSocket()?.send.mock.calls ?? []
+	const request = calls.map(([buf]) => buf).findLast((buf) => (buf.readUInt8(0) & 0x0f) == type)
+	return request?.toString('hex', 20, 30) ?? ''
+}
+
+/** Responses answer the last request sent unless a requestingPortIdentity is given */
+const makeDelayRespBuffer = (opts: Parameters<typeof makeSyncBuffer>[0] = {}) =>
+	makeSyncBuffer({ requesting: lastRequestIdentity(0x01), ...opts, type: 0x09, length: 54 })
+
+const makePdelayRespBuffer = (opts: Parameters<typeof makeSyncBuffer>[0] = {}) =>
+	makeSyncBuffer({ requesting: lastRequestIdentity(0x02), ...opts, type: 0x03, length: 54 })
+
+const makePdelayRespFollowUpBuffer = (opts: Parameters<typeof makeSyncBuffer>[0] = {}) =>
+	makeSyncBuffer({ requesting: lastRequestIdentity(0x02), ...opts, type: 0x0a, length: 54 })
+
+/**
+ * Build an Announce message (64 bytes).
+ *
+ * Body layout (bytes):
+ *  44-45: currentUtcOffset (BE int16)
+ *  47   : grandmasterPriority1
+ *  48   : clockClass
+ *  49   : clockAccuracy
+ *  50-51: offsetScaledLogVariance (BE)
+ *  52   : grandmasterPriority2
+ *  53-60: grandmasterIdentity
+ *  61-62: stepsRemoved (BE)
+ *  63   : timeSource
+ */
+const makeAnnounceBuffer = ({
+	domain = 0,
+	flags = 0x0004,
+	source = '112233445566aabb',
+	sequence = 1,
+	utcOffset = 37,
+	priority1 = 128,
+	clockClass = 6,
+	clockAccuracy = 0x21,
+	variance = 0x4e5d,
+	priority2 = 128,
+	grandmaster = '112233445566aabb',
+	stepsRemoved = 0,
+	timeSource = 0x20,
+}: {
+	domain?: number
+	flags?: number
+	source?: string
+	sequence?: number
+	utcOffset?: number
+	priority1?: number
+	clockClass?: number
+	clockAccuracy?: number
+	variance?: number
+	priority2?: number
+	grandmaster?: string
+	stepsRemoved?: number
+	timeSource?: number
+} = {}): Buffer => {
+	const buf = makeSyncBuffer({ type: 0x0b, domain, flags, source, sequence, length: 64 })
+	buf.writeInt16BE(utcOffset, 44)
+	buf.writeUInt8(priority1, 47)
+	buf.writeUInt8(clockClass, 48)
+	buf.writeUInt8(clockAccuracy, 49)
+	buf.writeUInt16BE(variance, 50)
+	buf.writeUInt8(priority2, 52)
+	Buffer.from(grandmaster, 'hex').copy(buf, 53)
+	buf.writeUInt16BE(stepsRemoved, 61)
+	buf.writeUInt8(timeSource, 63)
+	return buf
+}
+
+/**
+ * Build a SMPTE ST 2059-2 synchronization metadata TLV (52 bytes).
+ *
+ * Value layout after the OUI 68-97-E8 and subtype 00-00-01 (bytes from the start of the TLV):
+ *  10-17: defaultSystemFrameRate (numerator, denominator)
+ *  18   : masterLockingStatus
+ *  19   : timeAddressFlags
+ *  20-23: currentLocalOffset
+ *  24-27: jumpSeconds
+ *  28-45: timeOfNextJump, timeOfNextJam, timeOfPreviousJam (48 bit each)
+ *  46-49: previousJamLocalOffset
+ *  50   : daylightSaving
+ *  51   : leapSecondJump
+ */
+const makeSmpteTlv = ({
+	oui = '6897e8',
+	numerator = 30000,
+	denominator = 1001,
+	lockingStatus = 4,
+	timeAddressFlags = 0x01,
+	localOffset = 3563,
+	nextJam = 0,
+	previousJam = 0,
+	daylightSaving = 0,
+}: {
+	oui?: string
+	numerator?: number
+	denominator?: number
+	lockingStatus?: number
+	timeAddressFlags?: number
+	localOffset?: number
+	nextJam?: number
+	previousJam?: number
+	daylightSaving?: number
+} = {}): Buffer => {
+	const tlv = Buffer.alloc(52)
+	tlv.writeUInt16BE(0x0003, 0)
+	tlv.writeUInt16BE(48, 2)
+	Buffer.from(oui + '000001', 'hex').copy(tlv, 4)
+	tlv.writeUInt32BE(numerator, 10)
+	tlv.writeUInt32BE(denominator, 14)
+	tlv.writeUInt8(lockingStatus, 18)
+	tlv.writeUInt8(timeAddressFlags, 19)
+	tlv.writeInt32BE(localOffset, 20)
+	tlv.writeUIntBE(nextJam, 34, 6)
+	tlv.writeUIntBE(previousJam, 40, 6)
+	tlv.writeInt32BE(localOffset, 46)
+	tlv.writeUInt8(daylightSaving, 50)
+	return tlv
+}
+
+/** Management message (48 byte header) carrying a SMPTE TLV */
+const makeSmpteManagementBuffer = (
+	opts: Parameters<typeof makeSmpteTlv>[0] = {},
+	header: Parameters<typeof makeSyncBuffer>[0] = {},
+) => Buffer.concat([makeSyncBuffer({ ...header, type: 0x0d, length: 48 }), makeSmpteTlv(opts)])
 
 // Fake rinfo object
 const rinfo = { address: '192.168.1.1', family: 'IPv4', port: 319, size: 44 }
@@ -133,8 +275,13 @@ const eventSocket = () => mockSockets[mockSockets.length - 2]
 const generalSocket = () => mockSockets[mockSockets.length - 1]
 
 /** Create a client and wait for both sockets to fire 'listening' */
-const makeClient = async (iface = '0.0.0.0', domain = 0, interval = 125) => {
-	const client = new PTPv2Client(iface, domain, interval)
+const makeClient = async (
+	iface = '0.0.0.0',
+	domain: number | number[] = 0,
+	interval = 125,
+	options: ConstructorParameters<typeof PTPv2Client>[3] = {},
+) => {
+	const client = new PTPv2Client(iface, domain, interval, options)
 	await new Promise<void>((r) => setImmediate(r)) // let bind → listening fire
 	await new Promise<void>((r) => setImmediate(r))
 	return client
@@ -188,10 +335,6 @@ describe('constructor – iface validation', () => {
 		expect(() => new PTPv2Client('eth0')).toThrow(TypeError)
 	})
 
-	it('throws TypeError for an IPv6 address', () => {
-		expect(() => new PTPv2Client('::1')).toThrow(TypeError)
-	})
-
 	it('throws TypeError for a partial address', () => {
 		expect(() => new PTPv2Client('192.168.1')).toThrow(TypeError)
 	})
@@ -209,6 +352,124 @@ describe('constructor – iface validation', () => {
 	})
 })
 
+// ===========================================================================
+// Constructor – IPv6 iface validation
+// ===========================================================================
+describe('constructor – IPv6 iface validation', () => {
+	it('accepts a valid global IPv6 address', () => {
+		expect(() => new PTPv2Client('2001:db8::10')).not.toThrow()
+	})
+
+	it('accepts :: (all-interfaces)', () => {
+		expect(() => new PTPv2Client('::')).not.toThrow()
+	})
+
+	it('accepts the IPv6 loopback address', () => {
+		expect(() => new PTPv2Client('::1')).not.toThrow()
+	})
+
+	it('accepts a link-local address with a zone', () => {
+		expect(() => new PTPv2Client('fe80::1%eth0')).not.toThrow()
+	})
+
+	it('creates udp6 sockets for an IPv6 address', () => {
+		new PTPv2Client('::').destroy()
+		expect(dgram.createSocket).toHaveBeenCalledWith({ type: 'udp6', reuseAddr: true })
+	})
+
+	it('creates udp4 sockets for an IPv4 address', () => {
+		new PTPv2Client('0.0.0.0').destroy()
+		expect(dgram.createSocket).toHaveBeenCalledWith({ type: 'udp4', reuseAddr: true })
+	})
+
+	it('throws TypeError for an address with an invalid hextet', () => {
+		expect(() => new PTPv2Client('2001:db8::g')).toThrow(TypeError)
+	})
+
+	it('throws TypeError for too many separators', () => {
+		expect(() => new PTPv2Client(':::1')).toThrow(TypeError)
+	})
+
+	it('throws TypeError for a prefix-notation string', () => {
+		expect(() => new PTPv2Client('2001:db8::/64')).toThrow(TypeError)
+	})
+
+	it('throws TypeError for an IPv4 unicast master on an IPv6 interface', () => {
+		expect(() => new PTPv2Client('::', 0, 125, { unicastMasters: ['10.0.0.1'] })).toThrow(TypeError)
+	})
+
+	it('error message mentions the invalid value', () => {
+		expect(() => new PTPv2Client('fe80::zz')).toThrow(/fe80::zz/)
+	})
+})
+
+// ===========================================================================
+// IPv6 transport
+// ===========================================================================
+describe('IPv6 transport', () => {
+	it('binds both sockets to the supplied address', async () => {
+		const client = await makeClient('fe80::1%eth0')
+		expect(eventSocket().bind).toHaveBeenCalledWith(319, 'fe80::1%eth0')
+		expect(generalSocket().bind).toHaveBeenCalledWith(320, 'fe80::1%eth0')
+		client.destroy()
+	})
+
+	it('joins the global FF0E::181 group by default on the zone interface', async () => {
+		const client = await makeClient('fe80::1%eth0')
+		expect(eventSocket().addMembership).toHaveBeenCalledWith('ff0e::181', '::%eth0')
+		expect(generalSocket().addMembership).toHaveBeenCalledWith('ff0e::181', '::%eth0')
+		client.destroy()
+	})
+
+	it('resolves the interface of a global address without a zone', async () => {
+		const nic = { address: '2001:db8::10', family: 'IPv6', mac: 'aa:bb:cc:dd:ee:ff', internal: false }
+		const spy = vi.spyOn(os, 'networkInterfaces').mockReturnValue({ eth1: [nic as os.NetworkInterfaceInfo] })
+		const client = await makeClient('2001:db8::10', 0, 125, { ipv6Scope: 0x2 })
+		expect(eventSocket().addMembership).toHaveBeenCalledWith('ff02::181', '::%eth1')
+		spy.mockRestore()
+		client.destroy()
+	})
+
+	it.each([
+		[0x2, 'ff02::181'],
+		[0x4, 'ff04::181'],
+		[0x5, 'ff05::181'],
+		[0x8, 'ff08::181'],
+	])('scope %i joins %s', async (ipv6Scope, group) => {
+		const client = await makeClient('::', 0, 125, { ipv6Scope })
+		expect(eventSocket().addMembership).toHaveBeenCalledWith(group, undefined)
+		client.destroy()
+	})
+
+	it('shares one group between all domains', async () => {
+		const client = await makeClient('::', [0, 127])
+		expect(eventSocket().addMembership).toHaveBeenCalledOnce()
+		client.destroy()
+	})
+
+	it('completes a two-step exchange and sends delay_req to the scoped group', async () => {
+		const client = await makeClient('fe80::1%eth0', 0, 125, { ipv6Scope: 0x2 })
+		const v6rinfo = { address: 'fe80::2', family: 'IPv6', port: 319, size: 44 }
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1 }), v6rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ sequence: 1 }), v6rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		const [, port, address] = eventSocket().send.mock.calls[0]
+		expect(port).toBe(319)
+		expect(address).toBe('ff02::181%eth0')
+		generalSocket().emit('message', makeDelayRespBuffer({ sequence: 1 }), v6rinfo)
+		expect(client.is_synced).toBe(true)
+		expect(client.ptp_master).toEqual(['11-22-33-44-55-66-aa-bb:0', 'fe80::2'])
+		client.destroy()
+	})
+
+	it('uses FF02::6B for peer delay', async () => {
+		const client = await makeClient('fe80::1%eth0', 0, 125, { delayMechanism: 'P2P' })
+		expect(eventSocket().addMembership).toHaveBeenCalledWith('ff02::6b', '::%eth0')
+		expect(eventSocket().send.mock.calls[0][2]).toBe('ff02::6b%eth0')
+		client.destroy()
+	})
+})
+
 // ===========================================================================
 // Constructor – domain clamping
 // ===========================================================================
@@ -776,6 +1037,56 @@ describe('FIX: delay_req domain byte', () => {
 	})
 })
 
+// ===========================================================================
+// Delay_Req header and Delay_Resp matching
+// ===========================================================================
+describe('port identity', () => {
+	const sendDelayReq = async () => {
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ sequence: 1 }), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		return eventSocket().send.mock.calls[0][0]
+	}
+
+	it('derives an EUI-64 clock identity from a MAC address', () => {
+		expect(clockIdentityFromMac('aa:bb:cc:dd:ee:ff').toString('hex')).toBe('aabbccfffeddeeff')
+	})
+
+	it('sends a fully-formed delay_req with its port identity', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125)
+		const sentBuffer = await sendDelayReq()
+		expect(sentBuffer.length).toBe(44)
+		expect(sentBuffer.readUInt16BE(2)).toBe(44)
+		expect(sentBuffer.readUInt8(32)).toBe(0x01) // controlField
+		expect(sentBuffer.readInt8(33)).toBe(0x7f) // logMessageInterval
+		const identity = client.clock_identity
+		expect(identity).toMatch(/^([0-9a-f]{2}-){7}[0-9a-f]{2}:\d+$/)
+		expect(sentBuffer.toString('hex', 20, 28)).toBe(identity.split(':')[0].replaceAll('-', ''))
+		expect(sentBuffer.readUInt16BE(28)).toBe(Number(identity.split(':')[1]))
+		client.destroy()
+	})
+
+	it('keeps the same identity across requests', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125)
+		const identity = client.clock_identity
+		await sendDelayReq()
+		expect(client.clock_identity).toBe(identity)
+		client.destroy()
+	})
+
+	it('ignores a delay_resp requested by another port', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125)
+		await sendDelayReq()
+		generalSocket().emit('message', makeDelayRespBuffer({ requesting: '0123456789abcdef0001' }), rinfo)
+		expect(client.is_synced).toBe(false)
+		generalSocket().emit('message', makeDelayRespBuffer().subarray(0, 44), rinfo)
+		expect(client.is_synced).toBe(false)
+		generalSocket().emit('message', makeDelayRespBuffer(), rinfo)
+		expect(client.is_synced).toBe(true)
+		client.destroy()
+	})
+})
+
 // ===========================================================================
 // FIX: t2 captured only after send callback (not before setImmediate)
 // ===========================================================================
@@ -921,3 +1232,1412 @@ describe('error propagation', () => {
 		client.destroy()
 	})
 })
+
+// ===========================================================================
+// Announce messages – grandmaster dataset
+// ===========================================================================
+describe('announce handling', () => {
+	it('decodes the grandmaster dataset from an announce', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('grandmaster_changed', spy)
+		generalSocket().emit(
+			'message',
+			makeAnnounceBuffer({ grandmaster: 'aabbccfffe000001', stepsRemoved: 1, utcOffset: 37 }),
+			rinfo,
+		)
+		expect(spy).toHaveBeenCalledOnce()
+		expect(client.grandmaster).toEqual({
+			grandmasterIdentity: 'aa-bb-cc-ff-fe-00-00-01',
+			priority1: 128,
+			priority2: 128,
+			clockClass: 6,
+			clockAccuracy: 0x21,
+			offsetScaledLogVariance: 0x4e5d,
+			stepsRemoved: 1,
+			currentUtcOffset: 37,
+			currentUtcOffsetValid: true,
+			ptpTimescale: false,
+			timeSource: 0x20,
+		})
+		expect(spy.mock.calls[0][1]).toBe('192.168.1.1')
+		client.destroy()
+	})
+
+	it('is undefined before any announce', async () => {
+		const client = await makeClient()
+		expect(client.grandmaster).toBeUndefined()
+		client.destroy()
+	})
+
+	it('ignores truncated announces', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('announce', spy)
+		generalSocket().emit('message', makeSyncBuffer({ type: 0x0b, length: 50 }), rinfo)
+		expect(spy).not.toHaveBeenCalled()
+		expect(client.grandmaster).toBeUndefined()
+		client.destroy()
+	})
+
+	it('ignores announces from a different domain', async () => {
+		const client = await makeClient('0.0.0.0', 0)
+		const spy = vi.fn()
+		client.on('announce', spy)
+		generalSocket().emit('message', makeAnnounceBuffer({ domain: 5 }), rinfo)
+		expect(spy).not.toHaveBeenCalled()
+		client.destroy()
+	})
+
+	it('only emits grandmaster_changed when the dataset changes', async () => {
+		const client = await makeClient()
+		const announceSpy = vi.fn()
+		const changedSpy = vi.fn()
+		client.on('announce', announceSpy)
+		client.on('grandmaster_changed', changedSpy)
+		generalSocket().emit('message', makeAnnounceBuffer({ sequence: 1 }), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ sequence: 2 }), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ sequence: 3, clockClass: 7 }), rinfo)
+		expect(announceSpy).toHaveBeenCalledTimes(3)
+		expect(changedSpy).toHaveBeenCalledTimes(2)
+		expect(client.grandmaster?.clockClass).toBe(7)
+		client.destroy()
+	})
+
+	it('only adopts announces from the master sending Sync once one is known', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: 'aabbccddeeff0011' }), rinfo)
+		generalSocket().emit(
+			'message',
+			makeAnnounceBuffer({ source: '1122334455660099', grandmaster: '1122334455660099' }),
+			rinfo,
+		)
+		expect(client.grandmaster).toBeUndefined()
+		generalSocket().emit(
+			'message',
+			makeAnnounceBuffer({ source: 'aabbccddeeff0011', grandmaster: '0102030405060708', stepsRemoved: 1 }),
+			rinfo,
+		)
+		expect(client.grandmaster?.grandmasterIdentity).toBe('01-02-03-04-05-06-07-08')
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// BMCA evaluation of announcing masters
+// ===========================================================================
+describe('BMCA evaluation', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('reports the best master and whether ptp_master follows it', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('bmca_changed', spy)
+		for (let sequence = 1; sequence <= 2; sequence++) {
+			generalSocket().emit('message', makeAnnounceBuffer({ sequence, source: 'aabbccddeeff0011' }), rinfo)
+			generalSocket().emit(
+				'message',
+				makeAnnounceBuffer({ sequence, source: '1122334455660099', grandmaster: '1122334455660099', priority1: 100 }),
+				{ ...rinfo, address: '192.168.1.2' },
+			)
+		}
+		const [best, attribute] = client.bmca_best
+		expect(best?.source).toBe('11-22-33-44-55-66-00-99:0')
+		expect(best?.address).toBe('192.168.1.2')
+		expect(attribute).toBe('priority1')
+		expect(client.bmca_ranking).toHaveLength(2)
+		expect(spy).toHaveBeenCalled()
+
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: 'aabbccddeeff0011' }), rinfo)
+		expect(client.following_best).toBe(false)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: '1122334455660099' }), rinfo)
+		expect(client.following_best).toBe(true)
+		client.destroy()
+	})
+
+	it('treats the client as following the best master while nothing is qualified', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		expect(client.bmca_best[0]).toBeUndefined()
+		expect(client.following_best).toBe(true)
+		client.destroy()
+	})
+
+	it('drops a best master that stops announcing while nothing else announces', async () => {
+		const client = await makeClient()
+		vi.useFakeTimers()
+		const spy = vi.fn()
+		client.on('bmca_changed', spy)
+		for (let sequence = 1; sequence <= 2; sequence++) {
+			const announce = makeAnnounceBuffer({ sequence })
+			announce.writeInt8(0x7f, 33) //logAnnounceInterval: unicast, 2 s by default
+			generalSocket().emit('message', announce, rinfo)
+		}
+		expect(client.bmca_best[0]).toBeDefined()
+		spy.mockClear()
+		vi.advanceTimersByTime(6000)
+		expect(client.bmca_best[0]).toBeDefined()
+		vi.advanceTimersByTime(1)
+		expect(client.bmca_best[0]).toBeUndefined()
+		expect(spy).toHaveBeenCalledExactlyOnceWith(undefined, 'only candidate')
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Multi-domain monitoring
+// ===========================================================================
+describe('multi-domain monitoring', () => {
+	it('joins the multicast group of every monitored domain once', async () => {
+		const client = await makeClient('0.0.0.0', [0, 127, 4, 1])
+		const groups = eventSocket().addMembership.mock.calls.map(([group]) => group)
+		expect(groups.sort()).toEqual(['224.0.1.129', '224.0.1.130'])
+		expect(client.monitored_domains).toEqual([0, 127, 4, 1])
+		client.destroy()
+	})
+
+	it('drops invalid domains and keeps the first valid one as primary', async () => {
+		const client = await makeClient('0.0.0.0', [200, 3, -1, 3])
+		expect(client.monitored_domains).toEqual([3])
+		client.destroy()
+	})
+
+	it('tracks master and sync state per domain', async () => {
+		const client = await makeClient('0.0.0.0', [0, 127])
+		const masterSpy = vi.fn()
+		const updatedSpy = vi.fn()
+		client.on('ptp_master_changed', masterSpy)
+		client.on('domain_updated', updatedSpy)
+
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, domain: 127, source: 'aabbccddeeff0011' }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ domain: 127, sequence: 1 }), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit('message', makeDelayRespBuffer({ domain: 127, sequence: 1 }), rinfo)
+
+		// primary domain events stay silent for domain 127
+		expect(masterSpy).not.toHaveBeenCalled()
+		expect(client.is_synced).toBe(false)
+		expect(updatedSpy).toHaveBeenCalledWith(127)
+
+		const status = client.getDomainStatus(127)
+		expect(status?.synced).toBe(true)
+		expect(status?.ptpMaster).toBe('aa-bb-cc-dd-ee-ff-00-11:0')
+		expect(status?.lastSync).toBeGreaterThan(0)
+		expect(client.getDomainStatus(0)?.synced).toBe(false)
+		expect(client.getDomainStatus(5)).toBeUndefined()
+
+		const sentBuffer: Buffer = eventSocket().send.mock.calls[0][0]
+		expect(sentBuffer.readUInt8(4)).toBe(127)
+		client.destroy()
+	})
+
+	it('matches delay_resp sequence numbers per domain', async () => {
+		const client = await makeClient('0.0.0.0', [0, 1])
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, domain: 0 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ domain: 0, sequence: 1 }), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		// domain 1 has not sent a delay_req yet, so its response must be ignored
+		generalSocket().emit('message', makeDelayRespBuffer({ domain: 1, sequence: 1 }), rinfo)
+		expect(client.getDomainStatus(1)?.synced).toBe(false)
+		expect(client.is_synced).toBe(false)
+		generalSocket().emit('message', makeDelayRespBuffer({ domain: 0, sequence: 1 }), rinfo)
+		expect(client.is_synced).toBe(true)
+		client.destroy()
+	})
+
+	it('reports when the master changed', async () => {
+		vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000)
+		const client = await makeClient('0.0.0.0', [0, 1])
+		expect(client.getDomainStatus(1)?.masterChanged).toBe(0)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, domain: 1 }), rinfo)
+		expect(client.getDomainStatus(1)?.masterChanged).toBe(1_700_000_000_000)
+		expect(client.getDomainStatus(0)?.masterChanged).toBe(0)
+		vi.restoreAllMocks()
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Peer-to-peer delay mechanism
+// ===========================================================================
+describe('peer-to-peer delay mechanism', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	const makeP2PClient = async () => {
+		vi.spyOn(process, 'hrtime').mockReturnValue([100, 0])
+		const client = await makeClient('0.0.0.0', 0, 125, { delayMechanism: 'P2P' })
+		vi.spyOn(process, 'hrtime').mockReturnValue([100, 50000])
+		return client
+	}
+
+	it('joins 224.0.0.107 and sends pdelay_req once listening', async () => {
+		const client = await makeP2PClient()
+		expect(eventSocket().addMembership).toHaveBeenCalledWith('224.0.0.107', '0.0.0.0')
+		expect(eventSocket().send).toHaveBeenCalledOnce()
+		const [sentBuffer, port, address] = eventSocket().send.mock.calls[0]
+		expect(sentBuffer.readUInt8(0) & 0x0f).toBe(0x02)
+		expect(sentBuffer.length).toBe(54)
+		expect(sentBuffer.readUInt16BE(30)).toBe(1)
+		expect(port).toBe(319)
+		expect(address).toBe('224.0.0.107')
+		client.destroy()
+	})
+
+	it('does not use pdelay in E2E mode', async () => {
+		const client = await makeClient()
+		expect(eventSocket().addMembership).not.toHaveBeenCalledWith('224.0.0.107', '0.0.0.0')
+		expect(eventSocket().send).not.toHaveBeenCalled()
+		client.destroy()
+	})
+
+	it('calculates the mean link delay from a one-step pdelay_resp', async () => {
+		const client = await makeP2PClient()
+		const spy = vi.fn()
+		client.on('pdelay_measured', spy)
+		// turnaround time of 10µs carried in the correctionField
+		eventSocket().emit('message', makePdelayRespBuffer({ sequence: 1, correction: 10000 }), rinfo)
+		expect(spy).toHaveBeenCalledWith(20000)
+		expect(client.mean_link_delay).toBe(20000)
+		client.destroy()
+	})
+
+	it('calculates the mean link delay from a two-step pdelay_resp and follow_up', async () => {
+		const client = await makeP2PClient()
+		eventSocket().emit(
+			'message',
+			makePdelayRespBuffer({ flags: 0x0200, sequence: 1, tsSecondsLow: 10, tsNanoseconds: 0 }),
+			rinfo,
+		)
+		expect(client.mean_link_delay).toBeUndefined()
+		generalSocket().emit(
+			'message',
+			makePdelayRespFollowUpBuffer({ sequence: 1, tsSecondsLow: 10, tsNanoseconds: 30000 }),
+			rinfo,
+		)
+		expect(client.mean_link_delay).toBe(10000)
+		client.destroy()
+	})
+
+	it('ignores pdelay_resp with a different sequence number', async () => {
+		const client = await makeP2PClient()
+		eventSocket().emit('message', makePdelayRespBuffer({ sequence: 9 }), rinfo)
+		expect(client.mean_link_delay).toBeUndefined()
+		client.destroy()
+	})
+
+	it('syncs from sync + follow_up using the link delay and sync correction, without delay_req', async () => {
+		const client = await makeP2PClient()
+		eventSocket().emit('message', makePdelayRespBuffer({ sequence: 1, correction: 10000 }), rinfo)
+
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 3, correction: 3000 }), rinfo)
+		generalSocket().emit(
+			'message',
+			makeFollowUpBuffer({ sequence: 3, tsSecondsLow: 1000, tsNanoseconds: 0, correction: 1000 }),
+			rinfo,
+		)
+		await new Promise<void>((r) => setImmediate(r))
+
+		expect(client.is_synced).toBe(true)
+		// only the pdelay_req has been sent
+		expect(eventSocket().send).toHaveBeenCalledOnce()
+		// master time + link delay + residence time
+		expect(client.ptp_time).toEqual([1000, 24000])
+		client.destroy()
+	})
+
+	it('waits for a link delay before syncing', async () => {
+		const client = await makeP2PClient()
+		eventSocket().emit('message', makeSyncBuffer({ sequence: 3, tsSecondsLow: 1000 }), rinfo)
+		expect(client.is_synced).toBe(false)
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Unicast negotiation
+// ===========================================================================
+
+/** Build a Signaling message carrying GRANT_UNICAST_TRANSMISSION TLVs */
+const makeGrantBuffer = (grants: { messageType: number; log?: number; duration: number }[], domain = 0) => {
+	const buf = makeSyncBuffer({ type: 0x0c, domain, length: 44 + grants.length * 12 })
+	grants.forEach(({ messageType, log = 0, duration }, index) => {
+		const offset = 44 + index * 12
+		buf.writeUInt16BE(0x0005, offset)
+		buf.writeUInt16BE(8, offset + 2)
+		buf.writeUInt8(messageType << 4, offset + 4)
+		buf.writeInt8(log, offset + 5)
+		buf.writeUInt32BE(duration, offset + 6)
+	})
+	return buf
+}
+
+describe('unicast negotiation', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('throws TypeError for an invalid unicast master address', () => {
+		expect(() => new PTPv2Client('0.0.0.0', 0, 125, { unicastMasters: ['master.local'] })).toThrow(TypeError)
+	})
+
+	it('requests announce, sync and delay_resp from each master and joins no multicast group', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { unicastMasters: ['10.0.0.1', '10.0.0.2'] })
+		expect(eventSocket().addMembership).not.toHaveBeenCalled()
+		expect(generalSocket().send).toHaveBeenCalledTimes(2)
+		const [sentBuffer, port, address] = generalSocket().send.mock.calls[0]
+		expect(port).toBe(320)
+		expect(address).toBe('10.0.0.1')
+		expect(sentBuffer.readUInt8(0) & 0x0f).toBe(0x0c)
+		expect(sentBuffer.readUInt16BE(6) & 0x0400).toBe(0x0400)
+		const tlvs = [0, 1, 2].map((i) => [
+			sentBuffer.readUInt16BE(44 + i * 10),
+			sentBuffer.readUInt8(48 + i * 10) >> 4,
+			sentBuffer.readUInt32BE(50 + i * 10),
+		])
+		expect(tlvs).toEqual([
+			[0x0004, 0x0b, 300],
+			[0x0004, 0x00, 300],
+			[0x0004, 0x09, 300],
+		])
+		client.destroy()
+	})
+
+	it('records grants and denials from a configured master', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { unicastMasters: ['10.0.0.1'] })
+		const spy = vi.fn()
+		client.on('unicast_grant', spy)
+		generalSocket().emit(
+			'message',
+			makeGrantBuffer([
+				{ messageType: 0x0b, log: 1, duration: 300 },
+				{ messageType: 0x00, duration: 0 },
+			]),
+			{ ...rinfo, address: '10.0.0.1' },
+		)
+		expect(spy).toHaveBeenCalledTimes(2)
+		const grants = client.unicast_grants
+		expect(grants.find((grant) => grant.messageType == 0x0b)).toMatchObject({
+			granted: true,
+			denied: false,
+			duration: 300,
+		})
+		expect(grants.find((grant) => grant.messageType == 0x00)).toMatchObject({ granted: false, denied: true })
+		client.destroy()
+	})
+
+	it('matches grants from a link-local IPv6 master configured without a zone', async () => {
+		const client = await makeClient('fe80::1%eth0', 0, 125, { unicastMasters: ['fe80::2'] })
+		generalSocket().emit('message', makeGrantBuffer([{ messageType: 0x0b, duration: 300 }]), {
+			...rinfo,
+			address: 'fe80::2%eth0',
+			family: 'IPv6',
+		})
+		expect(client.unicast_grants).toMatchObject([{ address: 'fe80::2', messageType: 0x0b, granted: true }])
+		client.destroy()
+	})
+
+	it('ignores signaling from other addresses', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { unicastMasters: ['10.0.0.1'] })
+		generalSocket().emit('message', makeGrantBuffer([{ messageType: 0x0b, duration: 300 }]), rinfo)
+		expect(client.unicast_grants).toHaveLength(0)
+		client.destroy()
+	})
+
+	it('renews a grant before it expires', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { unicastMasters: ['10.0.0.1'] })
+		vi.useFakeTimers()
+		generalSocket().send.mockClear()
+		generalSocket().emit('message', makeGrantBuffer([{ messageType: 0x00, duration: 60 }]), {
+			...rinfo,
+			address: '10.0.0.1',
+		})
+		vi.advanceTimersByTime(44_000)
+		expect(generalSocket().send).not.toHaveBeenCalled()
+		vi.advanceTimersByTime(1_000)
+		expect(generalSocket().send).toHaveBeenCalledOnce()
+		const sentBuffer: Buffer = generalSocket().send.mock.calls[0][0]
+		expect(sentBuffer.readUInt16BE(2)).toBe(54)
+		expect(sentBuffer.readUInt8(48) >> 4).toBe(0x00)
+		client.destroy()
+	})
+
+	it('sends delay_req to the master address with the unicast flag', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { unicastMasters: ['10.0.0.1'] })
+		const master = { ...rinfo, address: '10.0.0.1' }
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0600, sequence: 1 }), master)
+		generalSocket().emit('message', makeFollowUpBuffer({ sequence: 1 }), master)
+		await new Promise<void>((r) => setImmediate(r))
+		const [sentBuffer, port, address] = eventSocket().send.mock.calls[0]
+		expect(port).toBe(319)
+		expect(address).toBe('10.0.0.1')
+		expect(sentBuffer.readUInt16BE(6) & 0x0400).toBe(0x0400)
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Offset and path delay statistics
+// ===========================================================================
+describe('offset and path delay statistics', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	/** Run an exchange one second after the previous one, so the minimum sync interval has passed */
+	let now = 1_700_000_000_000
+	const exchange = async (sequence: number, t1: number, t4: number) => {
+		now += 1000
+		vi.spyOn(Date, 'now').mockReturnValue(now)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ sequence, tsSecondsLow: 1000, tsNanoseconds: t1 }), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit('message', makeDelayRespBuffer({ sequence, tsSecondsLow: 1000, tsNanoseconds: t4 }), rinfo)
+	}
+
+	it('is empty before any exchange', async () => {
+		const client = await makeClient()
+		expect(client.statistics.offset).toEqual({
+			current: undefined,
+			min: undefined,
+			max: undefined,
+			mean: undefined,
+			stdDev: undefined,
+			count: 0,
+		})
+		client.destroy()
+	})
+
+	it('skips the initial step and records offset and mean path delay once synced', async () => {
+		vi.spyOn(process, 'hrtime').mockReturnValue([1000, 500000])
+		const client = await makeClient()
+		// initial exchange steps the clock onto master time
+		await exchange(1, 500000, 500000)
+		expect(client.statistics.offset.count).toBe(0)
+
+		// hrtime is frozen, so the corrected local clock reads 1000.000500000 for all local timestamps
+		// sync: t1 = 1000.000490000 -> master to slave 10000 ns
+		// delay_req: t4 = 1000.000506000 -> slave to master 6000 ns
+		await exchange(2, 490000, 506000)
+		const { offset, pathDelay } = client.statistics
+		expect(offset.current).toBe(2000)
+		expect(pathDelay.current).toBe(8000)
+		expect(offset.count).toBe(1)
+		expect(client.getDomainStatus(0)?.statistics).toEqual(client.statistics)
+		client.destroy()
+	})
+
+	it('summarises the window', async () => {
+		vi.spyOn(process, 'hrtime').mockReturnValue([1000, 500000])
+		const client = await makeClient('0.0.0.0', 0, 125, { statisticsWindow: 2 })
+		await exchange(1, 500000, 500000)
+		// offsets from master: 2000, 0, -4000 ns with a constant 8000 ns path delay
+		for (const [index, t1] of [490000, 490000, 494000].entries()) {
+			await exchange(index + 2, t1, t1 + 16000)
+		}
+		const { offset, pathDelay } = client.statistics
+		// window of 2 only keeps the last two exchanges
+		expect(offset).toEqual({ current: -4000, min: -4000, max: 0, mean: -2000, stdDev: 2000, count: 2 })
+		expect(pathDelay).toEqual({ current: 8000, min: 8000, max: 8000, mean: 8000, stdDev: 0, count: 2 })
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Clock servo
+// ===========================================================================
+describe('clock servo', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	it('extrapolates ptp_time with the estimated frequency error', async () => {
+		let hrtime: [number, number] = [1000, 0]
+		let now = 1_700_000_000_000
+		vi.spyOn(process, 'hrtime').mockImplementation(() => hrtime)
+		vi.spyOn(Date, 'now').mockImplementation(() => now)
+		const client = await makeClient()
+
+		const exchange = async (sequence: number, masterS: number, masterNS: number) => {
+			eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence }), rinfo)
+			generalSocket().emit(
+				'message',
+				makeFollowUpBuffer({ sequence, tsSecondsLow: masterS, tsNanoseconds: masterNS }),
+				rinfo,
+			)
+			await new Promise<void>((r) => setImmediate(r))
+			generalSocket().emit(
+				'message',
+				makeDelayRespBuffer({ sequence, tsSecondsLow: masterS, tsNanoseconds: masterNS }),
+				rinfo,
+			)
+		}
+
+		// zero path delay; the local oscillator gains 10 µs every 10 s (1000 ppb fast)
+		await exchange(1, 5000, 0)
+		expect(client.servo_status.state).toBe('estimating')
+		hrtime = [1010, 10000]
+		now += 10000
+		await exchange(2, 5010, 0)
+		expect(client.servo_status.state).toBe('locked')
+		expect(client.servo_status.drift).toBeCloseTo(1000)
+		expect(client.ptp_time).toEqual([5010, 0])
+
+		// 10 s later the extrapolated time has been corrected for the drift
+		hrtime = [1020, 20000]
+		expect(client.ptp_time).toEqual([5020, 0])
+		client.destroy()
+	})
+
+	it('resets when the master changes', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ sequence: 1 }), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit('message', makeDelayRespBuffer({ sequence: 1 }), rinfo)
+		expect(client.servo_status.state).toBe('estimating')
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: 'aabbccddeeff0011' }), rinfo)
+		expect(client.servo_status).toEqual({ state: 'unlocked', frequency: 0, drift: 0 })
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// correctionField handling
+// ===========================================================================
+describe('correctionField handling', () => {
+	beforeEach(() => {
+		// local clock frozen at 1000.000500000
+		vi.spyOn(process, 'hrtime').mockReturnValue([1000, 500000])
+	})
+
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	// master to slave: 500000 - 480000 - 4000 (corrections) = 16000 ns
+	// slave to master: 510000 - 500000 - 2000 (correction) = 8000 ns
+	// offset from master: (16000 - 8000) / 2 = 4000 ns
+	it('subtracts Sync, Follow_Up and Delay_Resp corrections in the two-step flow', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1, correction: 3000 }), rinfo)
+		generalSocket().emit(
+			'message',
+			makeFollowUpBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 480000, correction: 1000 }),
+			rinfo,
+		)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit(
+			'message',
+			makeDelayRespBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 510000, correction: 2000 }),
+			rinfo,
+		)
+		expect(client.ptp_time).toEqual([1000, 496000])
+		client.destroy()
+	})
+
+	it('subtracts Sync and Delay_Resp corrections in the one-step flow', async () => {
+		const client = await makeClient()
+		eventSocket().emit(
+			'message',
+			makeSyncBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 480000, correction: 4000 }),
+			rinfo,
+		)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit(
+			'message',
+			makeDelayRespBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 510000, correction: 2000 }),
+			rinfo,
+		)
+		expect(client.ptp_time).toEqual([1000, 496000])
+		client.destroy()
+	})
+
+	it('handles sub-nanosecond and negative corrections', async () => {
+		const client = await makeClient()
+		eventSocket().emit(
+			'message',
+			makeSyncBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 480000, correction: -0.5 }),
+			rinfo,
+		)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit(
+			'message',
+			makeDelayRespBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 510000, correction: 0.5 }),
+			rinfo,
+		)
+		// (20000.5 - 9999.5) / 2 = 5000.5 ns, the step is rounded to whole nanoseconds
+		const [s, ns] = client.ptp_time
+		expect(s).toBe(1000)
+		expect(Number.isInteger(ns)).toBe(true)
+		expect(Math.abs(ns - 494999.5)).toBeLessThanOrEqual(0.5)
+		client.destroy()
+	})
+
+	it('keeps timecode working after a fractional correction', async () => {
+		const client = await makeClient()
+		eventSocket().emit(
+			'message',
+			makeSyncBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 480000, correction: -0.5 }),
+			rinfo,
+		)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit(
+			'message',
+			makeDelayRespBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 510001, correction: 0 }),
+			rinfo,
+		)
+		expect(() => ptpToTimecode(client.ptp_time, TimecodeRates['25'], 37, 0)).not.toThrow()
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// SMPTE ST 2059-2 synchronization metadata
+// ===========================================================================
+describe('SMPTE synchronization metadata', () => {
+	it('decodes the TLV of a management message', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('smpte_metadata', spy)
+		generalSocket().emit(
+			'message',
+			makeSmpteManagementBuffer({ nextJam: 1_700_000_000, previousJam: 1_699_913_600, daylightSaving: 0x03 }),
+			rinfo,
+		)
+		expect(spy).toHaveBeenCalledOnce()
+		expect(spy.mock.calls[0][1]).toBe('192.168.1.1')
+		expect(client.smpte_metadata).toEqual({
+			frameRateNumerator: 30000,
+			frameRateDenominator: 1001,
+			masterLockingStatus: 4,
+			dropFrame: true,
+			colorFrameIdentification: false,
+			currentLocalOffset: 3563,
+			jumpSeconds: 0,
+			timeOfNextJump: 0,
+			timeOfNextJam: 1_700_000_000,
+			timeOfPreviousJam: 1_699_913_600,
+			previousJamLocalOffset: 3563,
+			daylightSaving: true,
+			daylightSavingAtNextJump: true,
+			daylightSavingAtPreviousJam: false,
+			leapSecondJump: false,
+		})
+		client.destroy()
+	})
+
+	it('decodes the TLV appended to an announce', async () => {
+		const client = await makeClient()
+		generalSocket().emit('message', Buffer.concat([makeAnnounceBuffer(), makeSmpteTlv({ numerator: 25 })]), rinfo)
+		expect(client.smpte_metadata?.frameRateNumerator).toBe(25)
+		expect(client.smpte_metadata?.frameRateDenominator).toBe(1001)
+		client.destroy()
+	})
+
+	it('ignores organization extensions of other organizations', async () => {
+		const client = await makeClient()
+		generalSocket().emit('message', makeSmpteManagementBuffer({ oui: '0019a7' }), rinfo)
+		expect(client.smpte_metadata).toBeUndefined()
+		client.destroy()
+	})
+
+	it('only emits when the metadata changes', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('smpte_metadata', spy)
+		generalSocket().emit('message', makeSmpteManagementBuffer(), rinfo)
+		generalSocket().emit('message', makeSmpteManagementBuffer(), rinfo)
+		generalSocket().emit('message', makeSmpteManagementBuffer({ lockingStatus: 1 }), rinfo)
+		expect(spy).toHaveBeenCalledTimes(2)
+		client.destroy()
+	})
+
+	it('ignores metadata from clocks other than the master', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		generalSocket().emit('message', makeSmpteManagementBuffer({}, { source: '0011223344556677' }), rinfo)
+		expect(client.smpte_metadata).toBeUndefined()
+		generalSocket().emit('message', makeSmpteManagementBuffer(), rinfo)
+		expect(client.smpte_metadata?.masterLockingStatus).toBe(4)
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Message intervals of the master
+// ===========================================================================
+describe('message intervals', () => {
+	const withInterval = (buf: Buffer, logMessageInterval: number) => {
+		buf.writeInt8(logMessageInterval, 33)
+		return buf
+	}
+
+	it('is undefined until the messages have been seen', async () => {
+		const client = await makeClient()
+		expect(client.message_intervals).toEqual({
+			logSyncInterval: undefined,
+			logAnnounceInterval: undefined,
+			logMinDelayReqInterval: undefined,
+		})
+		client.destroy()
+	})
+
+	it('records the logMessageInterval of sync, announce and delay_resp', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', withInterval(makeSyncBuffer({ flags: 0x0200 }), -3), rinfo)
+		generalSocket().emit('message', withInterval(makeAnnounceBuffer(), -2), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer(), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit('message', withInterval(makeDelayRespBuffer(), -4), rinfo)
+		expect(client.message_intervals).toEqual({
+			logSyncInterval: -3,
+			logAnnounceInterval: -2,
+			logMinDelayReqInterval: -4,
+		})
+		expect(client.getDomainStatus(0)?.intervals.logSyncInterval).toBe(-3)
+		client.destroy()
+	})
+
+	it('ignores the unicast value 0x7f', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', withInterval(makeSyncBuffer({ flags: 0x0200 }), 0x7f), rinfo)
+		expect(client.message_intervals.logSyncInterval).toBeUndefined()
+		client.destroy()
+	})
+
+	it('emits domain_updated when an interval changes', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', withInterval(makeSyncBuffer({ flags: 0x0200 }), -3), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer(), rinfo)
+		const spy = vi.fn()
+		client.on('domain_updated', spy)
+		eventSocket().emit('message', withInterval(makeSyncBuffer({ flags: 0x0200, sequence: 2 }), -3), rinfo)
+		expect(spy).not.toHaveBeenCalled()
+		eventSocket().emit('message', withInterval(makeSyncBuffer({ flags: 0x0200, sequence: 3 }), -4), rinfo)
+		expect(spy).toHaveBeenCalledWith(0)
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// PTP time of the last sync
+// ===========================================================================
+describe('last_sync_time', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	it('is [0, 0] before the first sync', async () => {
+		const client = await makeClient()
+		expect(client.last_sync_time).toEqual([0, 0])
+		client.destroy()
+	})
+
+	it('is the corrected PTP time of the sync', async () => {
+		vi.spyOn(process, 'hrtime').mockReturnValue([100, 0])
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ tsSecondsLow: 1000 }), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit('message', makeDelayRespBuffer({ tsSecondsLow: 1000 }), rinfo)
+		expect(client.last_sync_time).toEqual([1000, 0])
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Message rate and timeout monitoring
+// ===========================================================================
+describe('message monitoring', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('reports a missing follow_up', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('message_missed', spy)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1 }), rinfo)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 2 }), rinfo)
+		expect(spy).toHaveBeenCalledWith('Follow_Up', 0)
+		expect(client.message_rates.Follow_Up.missed).toBe(1)
+		client.destroy()
+	})
+
+	it('reports an unanswered delay_req when the next one is sent', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('message_missed', spy)
+		eventSocket().emit('message', makeSyncBuffer({ sequence: 1 }), rinfo)
+		eventSocket().emit('message', makeSyncBuffer({ sequence: 2 }), rinfo)
+		expect(spy).toHaveBeenCalledWith('Delay_Resp', 0)
+		expect(client.message_rates.Delay_Resp.missed).toBe(1)
+		client.destroy()
+	})
+
+	it('counts announce and sync arrivals of the master', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer(), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer(), rinfo)
+		const rates = client.getDomainStatus(0)?.messages
+		expect(rates?.Announce.count).toBe(1)
+		expect(rates?.Sync.count).toBe(1)
+		expect(rates?.Follow_Up.count).toBe(1)
+		client.destroy()
+	})
+
+	it('reports an announceReceiptTimeout after three announce intervals', async () => {
+		const client = await makeClient()
+		vi.useFakeTimers()
+		const spy = vi.fn()
+		client.on('message_missed', spy)
+		const announce = makeAnnounceBuffer()
+		announce.writeInt8(-1, 33) //logAnnounceInterval: 500 ms
+		generalSocket().emit('message', announce, rinfo)
+		vi.advanceTimersByTime(1499)
+		expect(spy).not.toHaveBeenCalled()
+		vi.advanceTimersByTime(1)
+		expect(spy).toHaveBeenCalledExactlyOnceWith('Announce', 0)
+		vi.advanceTimersByTime(10000)
+		expect(client.message_rates.Announce.missed).toBe(1)
+		client.destroy()
+	})
+})
+
+// ===========================================================================
+// Competing masters
+// ===========================================================================
+describe('master conflict', () => {
+	const rinfo2 = { ...rinfo, address: '192.168.1.2' }
+
+	it('reports two clocks sending sync', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('master_conflict', spy)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		expect(spy).not.toHaveBeenCalled()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: '0011223344556677' }), rinfo2)
+		expect(spy).toHaveBeenCalledOnce()
+		expect(spy.mock.calls[0][1]).toBe(0)
+		expect(client.master_conflict.map((claim) => [claim.source, claim.address])).toEqual([
+			['00-11-22-33-44-55-66-77:0', '192.168.1.2'],
+			['11-22-33-44-55-66-aa-bb:0', '192.168.1.1'],
+		])
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 2 }), rinfo)
+		expect(spy).toHaveBeenCalledOnce()
+		expect(client.getDomainStatus(0)?.masterConflict).toHaveLength(2)
+		client.destroy()
+	})
+
+	it('reports a second grandmaster announcing stepsRemoved 0', async () => {
+		const client = await makeClient()
+		generalSocket().emit('message', makeAnnounceBuffer(), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ source: '0011223344556677' }), rinfo2)
+		expect(client.master_conflict).toHaveLength(2)
+		client.destroy()
+	})
+
+	it('ignores announces of boundary clocks', async () => {
+		const client = await makeClient()
+		generalSocket().emit('message', makeAnnounceBuffer(), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ source: '0011223344556677', stepsRemoved: 1 }), rinfo2)
+		expect(client.master_conflict).toEqual([])
+		client.destroy()
+	})
+
+	it('keeps domains apart', async () => {
+		const client = await makeClient('0.0.0.0', [0, 1])
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, domain: 1, source: '0011223344556677' }), rinfo2)
+		expect(client.master_conflict).toEqual([])
+		expect(client.getDomainStatus(1)?.masterConflict).toEqual([])
+		client.destroy()
+	})
+})
+
+describe('foreign master table', () => {
+	const rinfo2 = { ...rinfo, address: '192.168.1.2' }
+
+	it('records clocks on monitored and unmonitored domains', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('foreign_master', spy)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer(), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ domain: 127, source: '00112233445566770001' }), rinfo2)
+		expect(spy).toHaveBeenCalledTimes(2)
+		const clocks = client.foreign_masters
+		expect(clocks.map((clock) => [clock.portIdentity, clock.address, clock.domain])).toEqual([
+			['11-22-33-44-55-66-aa-bb:0', '192.168.1.1', 0],
+			['00-11-22-33-44-55-66-77:1', '192.168.1.2', 127],
+		])
+		expect(clocks[0].messages).toEqual({ Sync: 1, Follow_Up: 1 })
+		expect(clocks[0].announce).toBeUndefined()
+		expect(clocks[1].messages).toEqual({ Announce: 1 })
+		expect(clocks[1].announce?.clockClass).toBe(6)
+		client.destroy()
+	})
+
+	it('emits when a clock announces different attributes', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('foreign_master', spy)
+		generalSocket().emit('message', makeAnnounceBuffer(), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ sequence: 2 }), rinfo)
+		expect(spy).toHaveBeenCalledOnce()
+		generalSocket().emit('message', makeAnnounceBuffer({ sequence: 3, clockClass: 7 }), rinfo)
+		expect(spy).toHaveBeenCalledTimes(2)
+		expect(spy.mock.calls[1][0].announce.clockClass).toBe(7)
+		expect(spy.mock.calls[1][0].messages).toEqual({ Announce: 3 })
+		client.destroy()
+	})
+
+	it('uses the port number of the source port identity', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: '112233445566aabb0002' }), rinfo)
+		expect(client.ptp_master[0]).toBe('11-22-33-44-55-66-aa-bb:2')
+		client.destroy()
+	})
+
+	it('skips our own requests looped back by multicast', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer(), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		eventSocket().emit('message', makeSyncBuffer({ type: 0x01, source: lastRequestIdentity(0x01) }), rinfo)
+		eventSocket().emit('message', makeSyncBuffer({ type: 0x01, source: '0011223344556677' }), rinfo2)
+		expect(client.foreign_masters.map((clock) => clock.portIdentity)).toEqual([
+			'00-11-22-33-44-55-66-77:0',
+			'11-22-33-44-55-66-aa-bb:0',
+		])
+		client.destroy()
+	})
+})
+
+describe('scheduled times', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	/** Client synced on a frozen hrtime, then running on the real hrtime */
+	const syncedClient = async (correction = 0) => {
+		vi.spyOn(process, 'hrtime').mockReturnValue([1000, 500000])
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1, correction }), rinfo)
+		generalSocket().emit(
+			'message',
+			makeFollowUpBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 500000 }),
+			rinfo,
+		)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit(
+			'message',
+			makeDelayRespBuffer({ sequence: 1, tsSecondsLow: 1000, tsNanoseconds: 500000 }),
+			rinfo,
+		)
+		vi.restoreAllMocks()
+		return client
+	}
+
+	const nextEvents = async (client: InstanceType<typeof PTPv2Client>, count: number) =>
+		new Promise<[string, PtpTime, number][]>((resolve) => {
+			const events: [string, PtpTime, number][] = []
+			client.on('scheduled_time', (...event) => {
+				events.push(event)
+				if (events.length == count) resolve(events)
+			})
+		})
+
+	it('emits a single time on PTP time', async () => {
+		const client = await syncedClient()
+		const [s, ns] = client.ptp_time
+		const time: PtpTime = ns >= 980_000_000 ? [s + 1, ns - 980_000_000] : [s, ns + 20_000_000]
+		const events = nextEvents(client, 1)
+		expect(client.schedule('cue', { type: 'once', time })).toBe(true)
+		const [[id, emitted, late]] = await events
+		expect(id).toBe('cue')
+		expect(emitted).toEqual(time)
+		expect(late).toBeGreaterThanOrEqual(0)
+		expect(late).toBeLessThan(50_000_000)
+		expect(client.scheduled_times).toEqual([])
+		client.destroy()
+	})
+
+	it('emits consecutive boundaries', async () => {
+		const client = await syncedClient()
+		const events = nextEvents(client, 3)
+		client.schedule('frames', { type: 'every', numerator: 1, denominator: 100, offset: 0 })
+		const times = (await events).map(([, [s, ns]]) => s * 1_000_000_000 + ns)
+		expect(times[1] - times[0]).toBe(10_000_000)
+		expect(times[2] - times[1]).toBe(10_000_000)
+		expect(times[0] % 10_000_000).toBe(0)
+		client.unschedule('frames')
+		expect(client.scheduled_times).toEqual([])
+		client.destroy()
+	})
+
+	it('waits for the first measurement', async () => {
+		const client = await makeClient()
+		expect(client.schedule('cue', { type: 'every', numerator: 1, denominator: 1, offset: 0 })).toBe(true)
+		expect(client.scheduled_times).toEqual([])
+		client.destroy()
+	})
+
+	it('schedules after a sync with a fractional correction', async () => {
+		const client = await syncedClient(-0.5)
+		const events = nextEvents(client, 1)
+		client.schedule('frames', { type: 'every', numerator: 1, denominator: 100, offset: 0 })
+		const [[, [, ns]]] = await events
+		expect(ns % 10_000_000).toBe(0)
+		expect(client.scheduled_times).toHaveLength(1)
+		client.destroy()
+	})
+
+	it('rejects periods that are not positive', async () => {
+		const client = await makeClient()
+		expect(client.schedule('cue', { type: 'every', numerator: 0, denominator: 1, offset: 0 })).toBe(false)
+		client.destroy()
+	})
+})
+
+describe('master selection', () => {
+	const rinfo2 = { ...rinfo, address: '192.168.1.2' }
+	const other = 'aabbccddeeff0011'
+
+	it('follows any source by default', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: other }), rinfo2)
+		expect(client.ptp_master).toEqual(['aa-bb-cc-dd-ee-ff-00-11:0', '192.168.1.2'])
+		expect(client.getDomainStatus(0)?.ignored).toEqual({})
+		client.destroy()
+	})
+
+	it('ignores Sync and Follow_Up of clocks other than the locked clock identity', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, {
+			masterSelection: 'locked',
+			lockedMaster: '11-22-33-44-55-66-AA-BB',
+		})
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1 }), rinfo)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 1, source: other }), rinfo2)
+		generalSocket().emit('message', makeFollowUpBuffer({ sequence: 1, source: other }), rinfo2)
+		expect(client.ptp_master).toEqual(['11-22-33-44-55-66-aa-bb:0', '192.168.1.1'])
+		expect(client.getDomainStatus(0)?.ignored).toEqual({ Sync: 1, Follow_Up: 1 })
+		expect(client.foreign_masters.find((clock) => clock.address == '192.168.1.2')?.messages).toEqual({
+			Sync: 1,
+			Follow_Up: 1,
+		})
+		client.destroy()
+	})
+
+	it('locks to an IP address', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { masterSelection: 'locked', lockedMaster: '192.168.1.2' })
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		expect(client.ptp_master).toEqual(['', ''])
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: other }), rinfo2)
+		expect(client.ptp_master).toEqual(['aa-bb-cc-dd-ee-ff-00-11:0', '192.168.1.2'])
+		client.destroy()
+	})
+
+	it('locks to a link-local IPv6 address given without a zone', async () => {
+		const client = await makeClient('fe80::1%eth0', 0, 125, { masterSelection: 'locked', lockedMaster: 'FE80::2' })
+		const source = { ...rinfo, address: 'fe80::2%eth0', family: 'IPv6' }
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: other }), source)
+		expect(client.ptp_master).toEqual(['aa-bb-cc-dd-ee-ff-00-11:0', 'fe80::2%eth0'])
+		client.destroy()
+	})
+
+	it('ignores Delay_Resp of other sources', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { masterSelection: 'locked', lockedMaster: '192.168.1.1' })
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer(), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit('message', makeDelayRespBuffer({ source: other }), rinfo2)
+		expect(client.last_sync).toBe(0)
+		expect(client.getDomainStatus(0)?.ignored).toEqual({ Delay_Resp: 1 })
+		generalSocket().emit('message', makeDelayRespBuffer(), rinfo)
+		expect(client.last_sync).not.toBe(0)
+		client.destroy()
+	})
+
+	it('follows the BMCA best master once it qualifies', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { masterSelection: 'bmca' })
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: other }), rinfo2)
+		expect(client.ptp_master).toEqual(['', ''])
+		for (let sequence = 1; sequence <= 2; sequence++) {
+			generalSocket().emit('message', makeAnnounceBuffer({ sequence, source: other }), rinfo2)
+			generalSocket().emit('message', makeAnnounceBuffer({ sequence, priority1: 100 }), rinfo)
+		}
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, source: other }), rinfo2)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		expect(client.ptp_master).toEqual(['11-22-33-44-55-66-aa-bb:0', '192.168.1.1'])
+		expect(client.getDomainStatus(0)?.ignored).toEqual({ Sync: 2 })
+		client.destroy()
+	})
+
+	it('rejects an invalid locked master', () => {
+		expect(() => new PTPv2Client('0.0.0.0', 0, 125, { masterSelection: 'locked', lockedMaster: 'studio gm' })).toThrow(
+			TypeError,
+		)
+	})
+})
+
+describe('rogue masters', () => {
+	const known = ['0:11-22-33-44-55-66-aa-bb']
+	const rogue = '00112233445566770001'
+
+	it('reports unknown Sync and Announce sources on monitored domains', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { knownClocks: known })
+		const spy = vi.fn()
+		client.on('rogue_master', spy)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ source: rogue }), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ source: rogue, sequence: 2 }), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ source: rogue, domain: 5 }), rinfo)
+		expect(spy).toHaveBeenCalledOnce()
+		expect(spy.mock.calls[0][0]).toMatchObject({ clockIdentity: '00-11-22-33-44-55-66-77', domain: 0 })
+		expect(client.rogue_masters).toHaveLength(1)
+		client.destroy()
+	})
+
+	it('is disabled without known clocks', async () => {
+		const client = await makeClient()
+		generalSocket().emit('message', makeAnnounceBuffer({ source: rogue }), rinfo)
+		expect(client.rogue_masters).toEqual([])
+		client.destroy()
+	})
+
+	it('approves the current master', async () => {
+		const client = await makeClient('0.0.0.0', 0, 125, { knownClocks: [] })
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200 }), rinfo)
+		expect(client.rogue_masters).toHaveLength(1)
+		expect(client.approveMaster(0)).toBe('11-22-33-44-55-66-aa-bb')
+		expect(client.rogue_masters).toEqual([])
+		expect(client.known_clocks).toEqual(known)
+		expect(client.approveMaster(1)).toBeUndefined()
+		client.destroy()
+	})
+
+	it('approves every rogue master', async () => {
+		const client = await makeClient('0.0.0.0', [0, 1], 125, { knownClocks: known })
+		generalSocket().emit('message', makeAnnounceBuffer({ source: rogue }), rinfo)
+		generalSocket().emit('message', makeAnnounceBuffer({ source: rogue, domain: 1 }), rinfo)
+		expect(client.approveRogueMasters()).toEqual(['0:00-11-22-33-44-55-66-77', '1:00-11-22-33-44-55-66-77'])
+		expect(client.rogue_masters).toEqual([])
+		expect(client.known_clocks).toEqual([...known, '0:00-11-22-33-44-55-66-77', '1:00-11-22-33-44-55-66-77'].sort())
+		client.destroy()
+	})
+})
+
+describe('management messages', () => {
+	/** Management RESPONSE to the last GET carrying a USER_DESCRIPTION */
+	const makeUserDescriptionResponse = (description: string, target: string, source = '112233445566aabb0001') => {
+		const value = Buffer.concat([Buffer.from([0x00, 0x02, description.length]), Buffer.from(description)])
+		const buf = makeSyncBuffer({ type: 0x0d, source, length: 52 + value.length })
+		Buffer.from(target, 'hex').copy(buf, 34)
+		buf.writeUInt8(2, 46) //RESPONSE
+		buf.writeUInt16BE(0x0001, 48)
+		buf.writeUInt16BE(value.length, 50)
+		value.copy(buf, 52)
+		return buf
+	}
+
+	const lastManagementRequest = (): Buffer => generalSocket().send.mock.calls.at(-1)?.[0] ?? Buffer.alloc(0)
+
+	it('sends a GET to all clocks on the multicast group of the domain', async () => {
+		const client = await makeClient('0.0.0.0', 127)
+		expect(client.sendManagementGet(0x2004)).toBe(true)
+		expect(generalSocket().send.mock.calls.at(-1)?.slice(1, 3)).toEqual([320, '224.0.1.129'])
+		const buf = lastManagementRequest()
+		expect(buf.readUInt8(0) & 0x0f).toBe(0x0d)
+		expect(buf.readUInt8(4)).toBe(127)
+		expect(buf.readUInt16BE(6) & 0x0400).toBe(0)
+		expect(buf.toString('hex', 34, 44)).toBe('ff'.repeat(10))
+		expect(buf.readUInt8(46)).toBe(0) //GET
+		expect(buf.readUInt16BE(48)).toBe(0x0001)
+		expect(buf.readUInt16BE(50)).toBe(2)
+		expect(buf.readUInt16BE(52)).toBe(0x2004)
+		client.destroy()
+	})
+
+	it('sends a GET to a port identity by unicast', async () => {
+		const client = await makeClient()
+		expect(client.sendManagementGet(0x0002, { portIdentity: '00-11-22-33-44-55-66-77:1', address: '10.0.0.5' })).toBe(
+			true,
+		)
+		expect(generalSocket().send.mock.calls.at(-1)?.[2]).toBe('10.0.0.5')
+		const buf = lastManagementRequest()
+		expect(buf.toString('hex', 34, 44)).toBe('00112233445566770001')
+		expect(buf.readUInt16BE(6) & 0x0400).toBe(0x0400)
+		expect(client.sendManagementGet(0x0002, { portIdentity: 'not an identity' })).toBe(false)
+		client.destroy()
+	})
+
+	it('keeps responses addressed to us', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('management_response', spy)
+		client.sendManagementGet(0x0002)
+		const own = lastManagementRequest().toString('hex', 20, 30)
+		generalSocket().emit('message', makeUserDescriptionResponse('Other', '00112233445566770001'), rinfo)
+		expect(spy).not.toHaveBeenCalled()
+		generalSocket().emit('message', makeUserDescriptionResponse('Studio GM', own), rinfo)
+		expect(spy).toHaveBeenCalledOnce()
+		expect(spy.mock.calls[0][0]).toMatchObject({
+			source: '11-22-33-44-55-66-aa-bb:1',
+			address: '192.168.1.1',
+			domain: 0,
+			managementId: 0x0002,
+			data: { userDescription: 'Studio GM' },
+			error: undefined,
+		})
+		expect(client.management_responses).toHaveLength(1)
+		generalSocket().emit('message', makeUserDescriptionResponse('Studio GM 2', own), rinfo)
+		expect(client.management_responses.map((response) => response.data)).toEqual([{ userDescription: 'Studio GM 2' }])
+		client.destroy()
+	})
+})
+
+describe('runtime control', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	const delayReqCount = () => eventSocket().send.mock.calls.filter(([buf]) => (buf.readUInt8(0) & 0x0f) == 0x01).length
+
+	const exchange = async (sequence: number) => {
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence }), rinfo)
+		generalSocket().emit('message', makeFollowUpBuffer({ sequence, tsSecondsLow: 1000 }), rinfo)
+		await new Promise<void>((r) => setImmediate(r))
+		generalSocket().emit('message', makeDelayRespBuffer({ sequence, tsSecondsLow: 1000 }), rinfo)
+	}
+
+	it('measures on the next sync when requested', async () => {
+		const client = await makeClient('0.0.0.0', 0, 10000)
+		await exchange(1)
+		expect(delayReqCount()).toBe(1)
+		await exchange(2)
+		expect(delayReqCount()).toBe(1)
+		expect(client.requestMeasurement()).toBe(true)
+		await exchange(3)
+		expect(delayReqCount()).toBe(2)
+		await exchange(4)
+		expect(delayReqCount()).toBe(2)
+		expect(client.requestMeasurement(5)).toBe(false)
+		client.destroy()
+	})
+
+	it('resets statistics and message counters', async () => {
+		vi.spyOn(process, 'hrtime').mockReturnValue([1000, 500000])
+		const client = await makeClient()
+		let now = 1_700_000_000_000
+		for (const sequence of [1, 2, 3]) {
+			now += 1000
+			vi.spyOn(Date, 'now').mockReturnValue(now)
+			await exchange(sequence)
+		}
+		expect(client.statistics.offset.count).toBe(2)
+		expect(client.message_rates.Sync.count).toBe(3)
+		client.resetStatistics()
+		expect(client.statistics.offset.count).toBe(0)
+		expect(client.message_rates.Sync.count).toBe(0)
+		client.destroy()
+	})
+
+	it('forgets the master', async () => {
+		const client = await makeClient()
+		const spy = vi.fn()
+		client.on('ptp_master_changed', spy)
+		generalSocket().emit('message', makeAnnounceBuffer(), rinfo)
+		await exchange(1)
+		expect(client.is_synced).toBe(true)
+		client.resetMaster()
+		expect(client.ptp_master).toEqual(['', ''])
+		expect(client.grandmaster).toBeUndefined()
+		expect(client.is_synced).toBe(false)
+		expect(spy).toHaveBeenLastCalledWith('', '', false)
+		client.destroy()
+	})
+
+	it('switches the primary domain without recreating the sockets', async () => {
+		const client = await makeClient('0.0.0.0', 0)
+		const sockets = mockSockets.length
+		const spy = vi.fn()
+		client.on('sync_changed', spy)
+		await exchange(1)
+		expect(client.setDomains(1)).toBe(true)
+		expect(mockSockets.length).toBe(sockets)
+		expect(client.monitored_domains).toEqual([1])
+		expect(client.is_synced).toBe(false)
+		expect(spy).toHaveBeenLastCalledWith(false)
+		expect(eventSocket().dropMembership).toHaveBeenCalledWith('224.0.1.129', '0.0.0.0')
+		expect(eventSocket().addMembership).toHaveBeenLastCalledWith('224.0.1.130', '0.0.0.0')
+		expect(generalSocket().addMembership).toHaveBeenLastCalledWith('224.0.1.130', '0.0.0.0')
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, domain: 1, sequence: 2 }), rinfo)
+		expect(client.ptp_master[0]).toBe('11-22-33-44-55-66-aa-bb:0')
+		expect(client.setDomains(200)).toBe(false)
+		client.destroy()
+	})
+
+	it('keeps the state of domains that stay monitored', async () => {
+		const client = await makeClient('0.0.0.0', [0, 1])
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, domain: 1 }), rinfo)
+		client.setDomains([1, 0])
+		expect(client.monitored_domains).toEqual([1, 0])
+		expect(client.ptp_master[0]).toBe('11-22-33-44-55-66-aa-bb:0')
+		expect(eventSocket().dropMembership).not.toHaveBeenCalled()
+		client.destroy()
+	})
+
+	it('ignores messages while paused', async () => {
+		const client = await makeClient()
+		await exchange(1)
+		client.pause()
+		expect(client.is_paused).toBe(true)
+		expect(client.is_synced).toBe(false)
+		eventSocket().emit('message', makeSyncBuffer({ flags: 0x0200, sequence: 2 }), rinfo)
+		expect(client.message_rates.Sync.count).toBe(1)
+		client.resume()
+		expect(client.is_paused).toBe(false)
+		//the Delay_Resp answers the second Delay_Req
+		await exchange(2)
+		expect(client.is_synced).toBe(true)
+		client.destroy()
+	})
+
+	it('stops peer delay requests while paused', async () => {
+		vi.useFakeTimers()
+		try {
+			const client = new PTPv2Client('0.0.0.0', 0, 1000, { delayMechanism: 'P2P' })
+			await vi.advanceTimersByTimeAsync(0)
+			const pdelayCount = () =>
+				eventSocket().send.mock.calls.filter(([buf]) => (buf.readUInt8(0) & 0x0f) == 0x02).length
+			expect(pdelayCount()).toBe(1)
+			client.pause()
+			await vi.advanceTimersByTimeAsync(5000)
+			expect(pdelayCount()).toBe(1)
+			client.resume()
+			expect(pdelayCount()).toBe(2)
+			client.destroy()
+		} finally {
+			vi.useRealTimers()
+		}
+	})
+
+	it('clears the discovered domains', async () => {
+		const client = await makeClient()
+		eventSocket().emit('message', makeSyncBuffer({ domain: 5 }), rinfo)
+		expect([...client.domains]).toEqual([5])
+		const spy = vi.fn()
+		client.on('domains', spy)
+		client.clearDomains()
+		expect([...client.domains]).toEqual([])
+		expect(spy).toHaveBeenCalledOnce()
+		client.destroy()
+	})
+})
@@ -1,6 +1,43 @@
 import dgram from 'dgram'
 import { EventEmitter } from 'events'
-import { isIPv4 } from 'net'
+import { isIP, isIPv4, isIPv6 } from 'net'
+import { isEqual } from 'es-toolkit'
+import { RollingStatistics, type StatisticsSummary } from './statistics.js'
+import { ClockServo, type ServoState } from './servo.js'
+import {
+	ANNOUNCE_RECEIPT_TIMEOUT,
+	BestMasterClock,
+	DEFAULT_LOG_ANNOUNCE_INTERVAL,
+	type BmcaAttribute,
+	type ForeignMaster,
+} from './bmca.js'
+import { interfaceName, localClockIdentity } from './identity.js'
+import { MessageMonitor, type MessageRate, type MonitoredMessage } from './monitor.js'
+import { MasterConflict, type MasterClaim } from './conflict.js'
+import { ForeignMasterTable, type ForeignClock } from './foreign.js'
+import { clockIdentityOf, RogueMasterDetector, type RogueMaster } from './rogue.js'
+import { isValidSchedule, nextScheduledTime, ptpTimeToNs, type PtpSchedule } from './scheduler.js'
+import { parseManagementResponse, ManagementAction, type ManagementData } from './management.js'
+import {
+	formatClockIdentity,
+	formatPortIdentity,
+	messageTypeName,
+	parseAnnounce,
+	parsePortIdentity,
+	parseGrantTlvs,
+	parseSmpteTlv,
+	readCorrection,
+	readTimestamp,
+	ANNOUNCE_LENGTH,
+	DELAY_REQ_LENGTH,
+	MANAGEMENT_HEADER_LENGTH,
+	MANAGEMENT_LENGTH,
+	PDELAY_LENGTH,
+	SIGNALING_HEADER_LENGTH,
+	TlvType,
+	type GrandmasterDataset,
+	type SmpteSynchronizationMetadata,
+} from './messages.js'
 
 export type PtpTime = [number, number]
 
@@ -15,6 +52,142 @@ const ptpDedicatedMulticastAddrs = ['224.0.1.129', '224.0.1.130', '224.0.1.131',
 const ptpMulticastAddr = (domain: number): string =>
 	domain <= 3 ? ptpDedicatedMulticastAddrs[domain] : PTP_PRIMARY_MULTICAST
 
+// IEEE 1588-2008 Annex D.3: peer delay messages use a link-local group that is never forwarded
+const PTP_PDELAY_MULTICAST = '224.0.0.107'
+
+// IEEE 1588-2008 Annex E.3: over IPv6 all domains share FF0X::181, where X is the
+// multicast scope (2 link-local, 4 admin-local, 5 site-local, 8 organization-local, E global).
+// Peer delay messages always use the link-local FF02::6B.
+const ptpMulticastAddr6 = (scope: number): string => `ff0${scope.toString(16)}::181`
+const PTP_PDELAY_MULTICAST6 = 'ff02::6b'
+
+// Sources of link-local IPv6 messages carry the zone of the receiving interface, e.g. 'fe80::2%eth0',
+// configured addresses may not
+const sameAddress = (a: string, b: string): boolean => a.split('%')[0].toLowerCase() == b.split('%')[0].toLowerCase()
+
+export type DelayMechanism = 'E2E' | 'P2P'
+
+/**
+ * Sources followed as master: whichever clock sent the latest Sync, a locked clock or address,
+ * or the best master of the BMCA once its Announces qualify
+ *
+ */
+
+export type MasterSelection = 'any' | 'locked' | 'bmca'
+
+// Unicast message types requested from masters with their logInterMessagePeriod
+const UNICAST_REQUESTS: [messageType: number, logInterMessagePeriod: number][] = [
+	[0x0b, 1], //announce every 2s
+	[0x00, 0], //sync every 1s
+	[0x09, 0], //delay_resp every 1s
+]
+const UNICAST_RETRY_INTERVAL = 10000
+// management requests reach clocks behind one boundary clock
+const MANAGEMENT_BOUNDARY_HOPS = 1
+// schedule timers re-read PTP time at least this often, servo steps and frequency changes move scheduled times (ms)
+const SCHEDULE_MAX_WAIT = 1000
+
+export interface PTPv2ClientOptions {
+	/** End-to-end (Delay_Req/Delay_Resp) or peer-to-peer (Pdelay) delay measurement */
+	delayMechanism: DelayMechanism
+	/** Addresses of unicast masters, of the same family as the interface. When set no multicast groups are joined */
+	unicastMasters: string[]
+	/** Duration in seconds requested for unicast grants */
+	unicastDuration: number
+	/** IPv6 multicast scope (0x2–0xE) used to form FF0X::181 */
+	ipv6Scope: number
+	/** Number of offset and path delay samples kept for statistics */
+	statisticsWindow: number
+	/** Offsets from master above this are stepped rather than slewed by the servo (ns) */
+	stepThreshold: number
+	/** More than one master within this window is reported as a master conflict (ms) */
+	conflictWindow: number
+	/** Clocks allowed to send Sync or Announce as domain:clock identity, undefined disables rogue master detection */
+	knownClocks: string[] | undefined
+	/** Sources followed as master, Sync, Follow_Up and Delay_Resp of other sources are ignored */
+	masterSelection: MasterSelection
+	/** Clock identity, port identity or IP address followed when masterSelection is 'locked' */
+	lockedMaster: string
+}
+
+const defaultOptions: PTPv2ClientOptions = {
+	delayMechanism: 'E2E',
+	unicastMasters: [],
+	unicastDuration: 300,
+	ipv6Scope: 0x0e,
+	statisticsWindow: 64,
+	stepThreshold: 1_000_000,
+	conflictWindow: 10000,
+	knownClocks: undefined,
+	masterSelection: 'any',
+	lockedMaster: '',
+}
+
+/**
+ * Clock servo state and frequency in ppb
+ *
+ */
+
+export interface ServoStatus {
+	state: ServoState
+	frequency: number
+	drift: number
+}
+
+/**
+ * Offset from master and mean path delay statistics in nanoseconds
+ *
+ */
+
+export interface PtpStatistics {
+	offset: StatisticsSummary
+	pathDelay: StatisticsSummary
+}
+
+/**
+ * Unicast transmission grant from a master for one message type
+ *
+ */
+
+export interface UnicastGrant {
+	address: string
+	messageType: number
+	granted: boolean
+	denied: boolean
+	logInterMessagePeriod: number
+	duration: number
+	expires: number
+}
+
+/**
+ * Recipient of a management message. Without a port identity all clocks are addressed,
+ * without an address the message is multicast to the primary domain (or sent to each unicast master)
+ *
+ */
+
+export interface ManagementTarget {
+	/** e.g. aa-bb-cc-dd-ee-ff-00-11:1 */
+	portIdentity?: string
+	address?: string
+}
+
+/**
+ * Decoded response to a management GET
+ *
+ */
+
+export interface ManagementResponse {
+	/** Port identity of the responding clock */
+	source: string
+	address: string
+	domain: number
+	managementId: number
+	data: ManagementData | undefined
+	error: string | undefined
+	/** Date.now() of receipt */
+	received: number
+}
+
 //functions
 
 const normalizePtpTime = (s: number, ns: number): PtpTime => {
@@ -29,24 +202,175 @@ const normalizePtpTime = (s: number, ns: number): PtpTime => {
 	return [s, ns]
 }
 
-const getCorrectedTime = (offset: PtpTime): PtpTime => {
-	const time = process.hrtime()
+const correctTime = (time: PtpTime, offset: PtpTime): PtpTime => {
 	const timeS = time[0] - offset[0]
 	const timeNS = time[1] - offset[1]
 	return normalizePtpTime(timeS, timeNS)
 }
 
+const diffNs = (a: PtpTime, b: PtpTime): number => (a[0] - b[0]) * 1_000_000_000 + (a[1] - b[1])
+
 export interface PTPv2ClientEvents {
 	close: [msg: string]
 	error: [err: Error]
 	listening: [msg: string]
 
+	announce: [grandmaster: GrandmasterDataset, source: string, address: string, domain: number]
 	domains: [domains: SetIterator<number>]
+	domain_updated: [domain: number]
+	foreign_master: [clock: ForeignClock]
+	management_response: [response: ManagementResponse]
+	message_missed: [type: MonitoredMessage, domain: number]
+	master_conflict: [claims: MasterClaim[], domain: number]
+	rogue_master: [rogue: RogueMaster]
+	pdelay_measured: [meanLinkDelay: number]
+	unicast_grant: [grant: UnicastGrant]
+
+	//events of the primary domain
+	bmca_changed: [best: ForeignMaster | undefined, decidingAttribute: BmcaAttribute]
+	grandmaster_changed: [grandmaster: GrandmasterDataset, address: string]
 	ptp_master_changed: [ptp_master: string, address: string, sync: boolean]
 	ptp_time_synced: [time: PtpTime, lastSync: number]
+	scheduled_time: [id: string, time: PtpTime, late: number]
+	smpte_metadata: [metadata: SmpteSynchronizationMetadata, address: string]
 	sync_changed: [sync: boolean]
 }
 
+/**
+ * logMessageInterval of the messages received from the master, undefined until seen
+ *
+ */
+
+export interface PtpMessageIntervals {
+	logSyncInterval: number | undefined
+	logAnnounceInterval: number | undefined
+	logMinDelayReqInterval: number | undefined
+}
+
+/**
+ * Snapshot of the state of one monitored domain
+ *
+ */
+
+export interface PtpDomainStatus {
+	domain: number
+	synced: boolean
+	ptpMaster: string
+	ptpMasterAddress: string
+	/** Date.now() of the last change of master, 0 if none */
+	masterChanged: number
+	lastSync: number
+	ptpTime: PtpTime
+	grandmaster: GrandmasterDataset | undefined
+	followingBest: boolean
+	intervals: PtpMessageIntervals
+	messages: Record<MonitoredMessage, MessageRate>
+	masterConflict: MasterClaim[]
+	statistics: PtpStatistics
+	/** Messages per message type ignored because their source is not the selected master */
+	ignored: Record<string, number>
+}
+
+interface DomainState {
+	domain: number
+	sync: boolean
+	syncTimeout: NodeJS.Timeout | undefined
+	announceTimeout: NodeJS.Timeout | undefined
+	/** Drops foreign masters that stop announcing while nothing else announces */
+	bmcaTimeout: NodeJS.Timeout | undefined
+	ptpMaster: string
+	ptpMasterAddress: string
+	masterChanged: number
+	grandmasterDataset: GrandmasterDataset | undefined
+	smpte: SmpteSynchronizationMetadata | undefined
+	intervals: PtpMessageIntervals
+	monitor: MessageMonitor
+	conflict: MasterConflict
+	bmca: BestMasterClock
+	offsetStats: RollingStatistics
+	pathDelayStats: RollingStatistics
+	servo: ClockServo
+	frequency: number
+	ref: PtpTime
+
+	t1: PtpTime
+	ts1: PtpTime
+	t2: PtpTime
+	ts2: PtpTime
+	offset: PtpTime
+	sync_correction: number
+	sync_seq: number
+	req_seq: number
+	lastSync: number
+	lastSyncTime: PtpTime
+	/** Measure on the next Sync regardless of the minimum sync interval */
+	measureNow: boolean
+	/** Messages per message type ignored because their source is not the selected master */
+	ignored: Record<string, number>
+}
+
+const newDomainState = (domain: number, options: PTPv2ClientOptions = defaultOptions): DomainState => ({
+	domain,
+	sync: false,
+	syncTimeout: undefined,
+	announceTimeout: undefined,
+	bmcaTimeout: undefined,
+	ptpMaster: '',
+	ptpMasterAddress: '',
+	masterChanged: 0,
+	grandmasterDataset: undefined,
+	smpte: undefined,
+	intervals: { logSyncInterval: undefined, logAnnounceInterval: undefined, logMinDelayReqInterval: undefined },
+	monitor: new MessageMonitor(),
+	conflict: new MasterConflict(options.conflictWindow),
+	bmca: new BestMasterClock(),
+	offsetStats: new RollingStatistics(options.statisticsWindow),
+	pathDelayStats: new RollingStatistics(options.statisticsWindow),
+	servo: new ClockServo(options.stepThreshold),
+	frequency: 0,
+	ref: [0, 0],
+
+	t1: [0, 0],
+	ts1: [0, 0],
+	t2: [0, 0],
+	ts2: [0, 0],
+	offset: [0, 0],
+	sync_correction: 0,
+	sync_seq: 0,
+	req_seq: 0,
+	lastSync: 0,
+	lastSyncTime: [0, 0],
+	measureNow: false,
+	ignored: {},
+})
+
+interface ScheduleEntry {
+	schedule: PtpSchedule
+	/** Scheduled time the timers wait for, undefined until PTP time is known */
+	next: PtpTime | undefined
+	timer: NodeJS.Timeout | undefined
+}
+
+/**
+ * Local time corrected by the domain offset and extrapolated with the servo frequency adjustment
+ * @param time process.hrtime() to correct
+ *
+ */
+
+const domainTime = (state: DomainState, time: PtpTime = process.hrtime()): PtpTime => {
+	const [s, ns] = correctTime(time, state.offset)
+	return normalizePtpTime(s, ns + Math.round(diffNs(time, state.ref) * state.frequency * 1e-9))
+}
+
+interface PdelayState {
+	req_seq: number
+	t1: PtpTime
+	t2: PtpTime
+	t4: PtpTime
+	resp_correction: number
+	meanLinkDelay: number | undefined
+}
+
 /**
  * Class providing a Typescript PTPv2 Client based on Philipp Hartung's node-ptpv2 client
  *
@@ -58,54 +382,112 @@ export class PTPv2Client extends EventEmitter<PTPv2ClientEvents> {
 	//ptp settings
 	private addr: string = '127.0.0.1'
 	private ptp_domain: number = 0
-	private sync: boolean = false
-	private syncTimeout: NodeJS.Timeout | undefined = undefined
-	private ptpMaster: string = ''
-	private ptpMasterAddress: string = ''
 	private minSyncInterval: number = 10000
 	private domainsFound: Set<number> = new Set<number>()
+	private domainStates: Map<number, DomainState> = new Map()
+	private foreignMasters: ForeignMasterTable = new ForeignMasterTable()
+	private rogueMasters: RogueMasterDetector = new RogueMasterDetector()
+	private options: PTPv2ClientOptions = defaultOptions
+	private pdelay: PdelayState = {
+		req_seq: 0,
+		t1: [0, 0],
+		t2: [0, 0],
+		t4: [0, 0],
+		resp_correction: 0,
+		meanLinkDelay: undefined,
+	}
+	private pdelayInterval: NodeJS.Timeout | undefined = undefined
+	private unicastGrants: Map<string, UnicastGrant> = new Map()
+	private unicastTimers: Map<string, NodeJS.Timeout> = new Map()
+	private signaling_seq: number = 0
+	private management_seq: number = 0
+	private managementResponses: Map<string, ManagementResponse> = new Map()
+	private schedules: Map<string, ScheduleEntry> = new Map()
+	private portIdentity: Buffer = Buffer.alloc(10)
 
 	//PTPv2
-	private ptpClientEvent = dgram.createSocket({ type: 'udp4', reuseAddr: true })
-	private ptpClientGeneral = dgram.createSocket({ type: 'udp4', reuseAddr: true })
-
-	//vars
-	private t1: PtpTime = [0, 0]
-	private ts1: PtpTime = [0, 0]
-	private t2: PtpTime = [0, 0]
-	private ts2: PtpTime = [0, 0]
-	private offset: PtpTime = [0, 0]
-	private sync_seq: number = 0
-	private req_seq: number = 0
-	private lastSync: number = 0
+	private family: 4 | 6 = 4
+	private zone: string = ''
+	private ptpClientEvent: dgram.Socket
+	private ptpClientGeneral: dgram.Socket
+	private listeningSockets: Set<dgram.Socket> = new Set()
+	private paused: boolean = false
 
 	/**
 	 * Initialise the client
 	 *
-	 * @param iface IPv4 address of the interface to bind to (defaults to '0.0.0.0' for all interfaces)
+	 * @param iface IPv4 or IPv6 address of the interface to bind to (defaults to '0.0.0.0' for all IPv4 interfaces,
+	 *              use '::' for all IPv6 interfaces). IPv6 addresses may include a zone, e.g. 'fe80::1%eth0',
+	 *              otherwise the interface that has the address is used
 	 * @param domain PTP domain to listen to (0–127; domains 0–3 use dedicated multicast
-	 *               addresses, domains 4–127 share 224.0.1.129)
+	 *               addresses, domains 4–127 share 224.0.1.129). An array monitors several domains,
+	 *               the first valid entry is the primary domain.
 	 * @param interval Minimum PTP sync interval (125ms)
+	 * @param options Protocol options, see PTPv2ClientOptions
 	 */
 
-	constructor(iface: string = '0.0.0.0', domain: number = 0, interval: number = 10000) {
+	constructor(
+		iface: string = '0.0.0.0',
+		domain: number | number[] = 0,
+		interval: number = 10000,
+		options: Partial<PTPv2ClientOptions> = {},
+	) {
 		super()
-		if (!isIPv4(iface)) {
+		if (isIPv6(iface)) {
+			this.family = 6
+			const [address, zone] = iface.split('%')
+			this.zone = zone ?? interfaceName(address) ?? ''
+		} else if (!isIPv4(iface)) {
 			throw new TypeError(
-				`Invalid interface address "${iface}": must be a valid IPv4 address (e.g. '192.168.1.10') or '0.0.0.0' for all interfaces.`,
+				`Invalid interface address "${iface}": must be a valid IPv4 address (e.g. '192.168.1.10'), IPv6 address (e.g. 'fe80::1%eth0'), '0.0.0.0' or '::' for all interfaces.`,
 			)
 		}
 		this.addr = iface
-		if (domain >= 0 && domain <= 127) this.ptp_domain = Math.round(domain)
+		//EUI-64 from the interface MAC, the port number keeps instances on one host apart
+		localClockIdentity(iface).copy(this.portIdentity, 0)
+		this.portIdentity.writeUInt16BE((process.pid % 0xfffe) + 1, 8)
+		this.ptpClientEvent = dgram.createSocket({ type: `udp${this.family}`, reuseAddr: true })
+		this.ptpClientGeneral = dgram.createSocket({ type: `udp${this.family}`, reuseAddr: true })
+		const domains = (Array.isArray(domain) ? domain : [domain])
+			.filter((d) => d >= 0 && d <= 127)
+			.map((d) => Math.round(d))
+		if (domains.length > 0) this.ptp_domain = domains[0]
 		if (interval >= 125) this.minSyncInterval = Math.round(interval)
+		this.options = { ...defaultOptions, ...options }
+		this.rogueMasters = new RogueMasterDetector(this.options.knownClocks ?? [])
+		for (const d of [this.ptp_domain, ...domains]) {
+			if (!this.domainStates.has(d)) this.domainStates.set(d, newDomainState(d, this.options))
+		}
+		const locked = this.options.lockedMaster.trim()
+		if (
+			this.options.masterSelection == 'locked' &&
+			isIP(locked) == 0 &&
+			parsePortIdentity(locked) === undefined &&
+			parsePortIdentity(`${locked}:0`) === undefined
+		) {
+			throw new TypeError(
+				`Invalid locked master "${locked}": must be a clock identity (e.g. '00-1d-c1-ff-fe-12-34-56'), a port identity (e.g. '00-1d-c1-ff-fe-12-34-56:1') or an IP address.`,
+			)
+		}
+		for (const master of this.options.unicastMasters) {
+			if (this.family == 4 ? !isIPv4(master) : !isIPv6(master)) {
+				throw new TypeError(
+					`Invalid unicast master address "${master}": must be a valid IPv${this.family} address to match the interface.`,
+				)
+			}
+		}
 
 		this.ptpClientEvent.on('listening', () => {
-			this.ptpClientEvent.addMembership(ptpMulticastAddr(this.ptp_domain), this.addr)
+			this.multicastAddrs.forEach((group) => this.ptpClientEvent.addMembership(group, this.membershipInterface))
+			this.listeningSockets.add(this.ptpClientEvent)
 			this.emit('listening', `ptpClientEvent socket listening`)
+			if (this.options.delayMechanism == 'P2P' && !this.paused) this.startPdelay()
 		})
 		this.ptpClientGeneral.on('listening', () => {
-			this.ptpClientGeneral.addMembership(ptpMulticastAddr(this.ptp_domain), this.addr)
+			this.multicastAddrs.forEach((group) => this.ptpClientGeneral.addMembership(group, this.membershipInterface))
+			this.listeningSockets.add(this.ptpClientGeneral)
 			this.emit('listening', `ptpClientGeneral socket listening`)
+			if (!this.paused) this.options.unicastMasters.forEach((master) => this.requestUnicast(master))
 		})
 		this.ptpClientEvent.on('error', (err) => {
 			this.emit('error', err)
@@ -122,10 +504,10 @@ export class PTPv2Client extends EventEmitter<PTPv2ClientEvents> {
 		})
 
 		this.ptpClientEvent.on('message', (buffer, rinfo): void => {
-			const recv_ts = getCorrectedTime(this.offset) //safe timestamp for ts1
+			const recv_hrtime = process.hrtime() //safe timestamp for ts1
 
 			//check buffer length
-			if (buffer.length < 32) return
+			if (this.paused || buffer.length < 32) return
 
 			//read values from buffer
 			const type = buffer.readUInt8(0) & 0x0f
@@ -133,66 +515,71 @@ export class PTPv2Client extends EventEmitter<PTPv2ClientEvents> {
 			//const length = buffer.readUInt16BE(2)
 			const domain = buffer.readUInt8(4)
 			const flags = buffer.readUInt16BE(6)
-			let source = buffer.toString('hex', 20, 28)
-			if (source == null) return
-			const sourceB = source.match(/.{1,2}/g)
-			if (sourceB == null) return
-			source = sourceB.join('-') + ':0'
-			//const sourceAlt = buffer.toString('hex', 20, 28).match(/.{1,2}/g).join(':')
+			const source = formatPortIdentity(buffer, 20)
 			const sequence = buffer.readUInt16BE(30)
+			this.recordClock(buffer, rinfo.address)
+			if (version == 2 && type == 0x03) {
+				//pdelay_resp msg, measures the link so it is independent of the monitored domains
+				this.processPdelayResp(buffer, correctTime(recv_hrtime, [0, 0]))
+				return
+			}
 			this.addDomain(domain)
-			if (version != 2 || domain != this.ptp_domain)
-				//check for version 2 and domain 0
+			const state = this.domainStates.get(domain)
+			if (version != 2 || state === undefined)
+				//check for version 2 and a monitored domain
 				return
 
 			if (type != 0)
 				//only process sync messages
 				return
 
+			const recv_ts = domainTime(state, recv_hrtime)
+			this.claimMaster(state, source, rinfo.address)
+			if (!this.isSelectedMaster(state, source, rinfo.address)) {
+				this.ignoreMessage(state, type)
+				return
+			}
+
 			//do we have a new ptp master?
-			if (source != this.ptpMaster) {
-				this.ptpMaster = source
-				this.ptpMasterAddress = rinfo.address
-				this.sync = false
-				this.emit('ptp_master_changed', this.ptpMaster, rinfo.address, this.sync)
+			if (source != state.ptpMaster) {
+				state.ptpMaster = source
+				state.ptpMasterAddress = rinfo.address
+				state.masterChanged = Date.now()
+				state.sync = false
+				state.monitor.clear()
+				this.resetServo(state)
+				if (domain == this.ptp_domain) this.emit('ptp_master_changed', state.ptpMaster, rinfo.address, state.sync)
+				this.emit('domain_updated', domain)
 			}
 
 			//save sequence number
-			this.sync_seq = sequence
+			state.sync_seq = sequence
+			this.recordInterval(state, 'logSyncInterval', buffer)
+			state.monitor.arrival('Sync', buffer.readInt8(33))
+			this.reportMissing(state, state.monitor.sync(sequence, (flags & 0x0200) == 0x0200))
 
 			//check if master is two step or not
 			if ((flags & 0x0200) == 0x0200) {
 				//two step, wait for follow_up msg for accurate t1
-				this.ts1 = recv_ts
-			} else if (Date.now() - this.lastSync > this.minSyncInterval) {
+				state.ts1 = recv_ts
+				state.sync_correction = readCorrection(buffer)
+			} else if (this.measurementDue(state)) {
 				if (buffer.length < 44) return
 				//got accurate t1 (no follow_up msg)
-				this.ts1 = recv_ts
+				state.ts1 = recv_ts
 
 				// FIX: use * 2^32 instead of << 4 to correctly combine the 48-bit seconds field
-				const tsS = buffer.readUInt16BE(34) * 4294967296 + buffer.readUInt32BE(36)
-				const tsNS = buffer.readUInt32BE(40)
-				this.t1 = [tsS, tsNS]
-
-				//send delay_req
-				setImmediate(() => {
-					this.ptpClientEvent.send(this.ptp_delay_req(), 319, ptpMulticastAddr(this.ptp_domain), (err, _bytes) => {
-						if (err) {
-							console.log(err)
-							this.emit('error', err)
-						} else {
-							// FIX: only capture t2 after the packet has actually been sent
-							this.t2 = getCorrectedTime(this.offset)
-						}
-					})
-				})
-				// FIX: removed redundant pre-send t2 assignment that was always overwritten
+				state.t1 = readTimestamp(buffer)
+				state.sync_correction = readCorrection(buffer)
+
+				//send delay_req or use the peer delay
+				this.measureDelay(state)
 			}
 		})
 
-		this.ptpClientGeneral.on('message', (buffer, _rinfo): void => {
+		this.ptpClientGeneral.on('message', (buffer, rinfo): void => {
 			//check buffer length
-			if (buffer.length < 32) return
+			if (this.paused || buffer.length < 32) return
 
 			//read values from buffer
 			const type = buffer.readUInt8(0) & 0x0f
@@ -200,55 +587,73 @@ export class PTPv2Client extends EventEmitter<PTPv2ClientEvents> {
 			//const length = buffer.readUInt16BE(2)
 			const domain = buffer.readUInt8(4)
 			//const flags = buffer.readUInt16BE(6)
-			//const source = buffer.toString('hex', 20, 28).match(/.{1,2}/g).join('-') + ':0'
 			const sequence = buffer.readUInt16BE(30)
+			this.recordClock(buffer, rinfo.address)
+			if (version == 2 && type == 0x0a) {
+				//pdelay_resp_follow_up msg
+				this.processPdelayRespFollowUp(buffer)
+				return
+			}
 			this.addDomain(domain)
+			const state = this.domainStates.get(domain)
 			//check for version 2 and domain
-			if (version != 2 || domain != this.ptp_domain || buffer.length < 44) return
-			if (type == 0x08 && this.sync_seq == sequence && Date.now() - this.lastSync > this.minSyncInterval) {
+			if (version != 2 || state === undefined || buffer.length < 44) return
+			//Follow_Up and Delay_Resp only belong to the Sync of the followed master if they share its source
+			if (
+				(type == 0x08 || type == 0x09) &&
+				this.options.masterSelection != 'any' &&
+				formatPortIdentity(buffer, 20) != state.ptpMaster
+			) {
+				this.ignoreMessage(state, type)
+				return
+			}
+			if (type == 0x08 && state.sync_seq == sequence) {
+				state.monitor.arrival('Follow_Up', buffer.readInt8(33))
+				state.monitor.followUp(sequence)
+			}
+			if (type == 0x08 && state.sync_seq == sequence && this.measurementDue(state)) {
 				//follow up msg with current seq
 				// FIX: use * 2^32 instead of << 4 to correctly combine the 48-bit seconds field
-				const tsS = buffer.readUInt16BE(34) * 4294967296 + buffer.readUInt32BE(36)
-				const tsNS = buffer.readUInt32BE(40)
-				this.t1 = [tsS, tsNS]
-
-				//send delay_req
-				setImmediate(() => {
-					this.ptpClientEvent.send(this.ptp_delay_req(), 319, ptpMulticastAddr(this.ptp_domain), (err, _bytes) => {
-						if (err) {
-							console.log(err)
-							this.emit('error', err)
-						} else {
-							// FIX: only capture t2 after the packet has actually been sent
-							this.t2 = getCorrectedTime(this.offset)
-						}
-					})
-				})
-				// FIX: removed redundant pre-send t2 assignment that was always overwritten
-			} else if (type == 0x09 && this.req_seq == sequence) {
-				//delay_rsp msg
+				state.t1 = readTimestamp(buffer)
+				state.sync_correction += readCorrection(buffer)
+
+				//send delay_req or use the peer delay
+				this.measureDelay(state)
+			} else if (
+				type == 0x09 &&
+				state.req_seq == sequence &&
+				this.options.delayMechanism == 'E2E' &&
+				this.isOwnRequest(buffer)
+			) {
+				//delay_rsp msg, its logMessageInterval is the logMinDelayReqInterval of the master
+				this.recordInterval(state, 'logMinDelayReqInterval', buffer)
+				state.monitor.arrival('Delay_Resp', buffer.readInt8(33))
+				state.monitor.delayResp()
 				// FIX: use * 2^32 instead of << 4 to correctly combine the 48-bit seconds field
-				const tsS = buffer.readUInt16BE(34) * 4294967296 + buffer.readUInt32BE(36)
-				const tsNS = buffer.readUInt32BE(40)
-				this.ts2 = [tsS, tsNS]
+				state.ts2 = readTimestamp(buffer)
+
+				//master to slave and slave to master delays, less the residence time
+				//transparent clocks added to the correctionFields of Sync, Follow_Up and Delay_Resp
+				const masterToSlave = diffNs(state.ts1, state.t1) - state.sync_correction
+				const slaveToMaster = diffNs(state.ts2, state.t2) - readCorrection(buffer)
 
 				//calc offset
-				const delta =
-					0.5 * (this.ts1[0] - this.t1[0] - this.ts2[0] + this.t2[0]) * 1000000000 +
-					0.5 * (this.ts1[1] - this.t1[1] - this.ts2[1] + this.t2[1])
-
-				// FIX: use Math.trunc (not %) to correctly split negative deltas,
-				// then normalise the accumulated offset to keep ns within [0, 1e9)
-				const deltaS = Math.trunc(delta / 1_000_000_000)
-				const deltaNS = delta - deltaS * 1_000_000_000
-
-				this.offset = normalizePtpTime(this.offset[0] + deltaS, this.offset[1] + deltaNS)
-
-				this.lastSync = Date.now()
-				this.emit('ptp_time_synced', this.ptp_time, this.lastSync)
-				this.startSyncTimeout()
-				//check if the clock was synced before
-				this.sync_change(true)
+				const delta = 0.5 * (masterToSlave - slaveToMaster)
+
+				//mean path delay ((t2 - t1) + (t4 - t3)) / 2
+				const pathDelay = 0.5 * (masterToSlave + slaveToMaster)
+
+				this.applyDelta(state, delta, pathDelay)
+			} else if (type == 0x0b) {
+				//announce msg
+				this.processAnnounce(state, buffer, rinfo.address)
+			} else if (type == 0x0c) {
+				//signaling msg
+				this.processSignaling(buffer, rinfo.address)
+			} else if (type == 0x0d) {
+				//management msg, a response to our GET or the SMPTE synchronization metadata
+				this.processManagement(buffer, rinfo.address)
+				this.processSmpte(state, buffer, MANAGEMENT_HEADER_LENGTH, rinfo.address)
 			}
 		})
 		try {
@@ -270,111 +675,1207 @@ export class PTPv2Client extends EventEmitter<PTPv2ClientEvents> {
 	 */
 
 	public destroy(): void {
-		if (this.syncTimeout) clearTimeout(this.syncTimeout)
+		if (this.pdelayInterval) clearInterval(this.pdelayInterval)
+		this.unicastTimers.forEach((timer) => clearTimeout(timer))
+		this.unicastTimers.clear()
+		this.schedules.forEach((entry) => this.stopSchedule(entry))
+		this.schedules.clear()
 		this.ptpClientEvent.removeAllListeners()
 		this.ptpClientEvent.close()
 		this.ptpClientGeneral.removeAllListeners()
 		this.ptpClientGeneral.close()
-		this.sync = false
-		this.emit('sync_changed', this.sync)
+		for (const state of this.domainStates.values()) {
+			this.stopTimeouts(state)
+			state.sync = false
+		}
+		this.emit('sync_changed', false)
 	}
 
 	/**
-	 * Create ptp delay_req buffer
+	 * Measure the offset and delay on the next Sync of the master instead of waiting for the minimum sync interval.
+	 * In P2P mode a Pdelay_Req is also sent right away.
+	 * @returns false if the domain is not monitored
 	 *
 	 */
 
-	private ptp_delay_req(): Buffer<ArrayBuffer> {
-		const length = 52
-		const buffer = Buffer.alloc(length)
-		this.req_seq = (this.req_seq + 1) % 0x10000
+	public requestMeasurement(domain: number = this.ptp_domain): boolean {
+		const state = this.domainStates.get(domain)
+		if (state === undefined) return false
+		state.measureNow = true
+		if (this.options.delayMechanism == 'P2P' && !this.paused && this.listeningSockets.has(this.ptpClientEvent))
+			this.sendPdelayReq()
+		return true
+	}
 
-		buffer.writeUInt8(1, 0)
-		buffer.writeUInt8(2, 1)
-		buffer.writeUInt16BE(length, 2)
-		// FIX: set the domain byte so masters on non-zero domains respond correctly
-		buffer.writeUInt8(this.ptp_domain, 4)
-		buffer.writeUInt16BE(this.req_seq, 30)
+	/**
+	 * Clear the offset and path delay statistics and the message counters of every monitored domain
+	 *
+	 */
 
-		return buffer
+	public resetStatistics(): void {
+		for (const state of this.domainStates.values()) {
+			state.offsetStats.clear()
+			state.pathDelayStats.clear()
+			state.monitor.clear()
+			state.ignored = {}
+			this.emit('domain_updated', state.domain)
+		}
 	}
 
-	private startSyncTimeout(): void {
-		if (this.syncTimeout) clearTimeout(this.syncTimeout)
-		this.syncTimeout = setTimeout(() => {
-			this.sync_change(false)
-		}, this.minSyncInterval * 2)
+	/**
+	 * Forget the master of a domain and everything learned from it, the next Sync selects a master again
+	 * @param domain Defaults to the primary domain
+	 *
+	 */
+
+	public resetMaster(domain: number = this.ptp_domain): void {
+		const state = this.domainStates.get(domain)
+		if (state === undefined) return
+		this.stopTimeouts(state)
+		state.ptpMaster = ''
+		state.ptpMasterAddress = ''
+		state.grandmasterDataset = undefined
+		state.smpte = undefined
+		state.intervals = { logSyncInterval: undefined, logAnnounceInterval: undefined, logMinDelayReqInterval: undefined }
+		state.monitor.clear()
+		state.conflict.clear()
+		state.bmca.clear()
+		this.resetServo(state)
+		this.sync_change(state, false)
+		if (domain == this.ptp_domain) this.emit('ptp_master_changed', '', '', false)
+		this.emit('domain_updated', domain)
 	}
 
 	/**
-	 * Check if we have seen this domain before and if not emit event with set of found domains
+	 * Change the monitored domains without recreating the sockets.
+	 * Domains that stay monitored keep their state, multicast groups are joined and left as needed.
+	 * @param domain Same as the constructor, the first valid entry is the primary domain
+	 * @returns false if no valid domain is given
 	 *
 	 */
 
-	private addDomain(domain: number): void {
-		if (this.domainsFound.has(domain)) return
-		this.domainsFound.add(domain)
-		this.emit(`domains`, this.domainsFound.values())
+	public setDomains(domain: number | number[]): boolean {
+		const domains = (Array.isArray(domain) ? domain : [domain])
+			.filter((d) => d >= 0 && d <= 127)
+			.map((d) => Math.round(d))
+		if (domains.length == 0) return false
+		const groups = this.multicastAddrs
+		const primaryChanged = domains[0] != this.ptp_domain
+		const states: Map<number, DomainState> = new Map()
+		for (const d of domains) {
+			if (!states.has(d)) states.set(d, this.domainStates.get(d) ?? newDomainState(d, this.options))
+		}
+		for (const state of this.domainStates.values()) {
+			if (!states.has(state.domain)) this.stopTimeouts(state)
+		}
+		this.domainStates = states
+		this.ptp_domain = domains[0]
+		this.updateMemberships(groups)
+		if (primaryChanged) {
+			//unicast grants are per domain
+			if (this.unicast && !this.paused && this.listeningSockets.has(this.ptpClientGeneral))
+				this.options.unicastMasters.forEach((master) => this.requestUnicast(master))
+			this.emit('ptp_master_changed', this.primary.ptpMaster, this.primary.ptpMasterAddress, this.primary.sync)
+			this.emit('sync_changed', this.primary.sync)
+		}
+		domains.forEach((d) => this.emit('domain_updated', d))
+		return true
 	}
 
 	/**
-	 * Check sync state and if changed emit event
+	 * Stop processing and sending messages while keeping the sockets open. Every domain loses sync
 	 *
 	 */
 
-	private sync_change(sync: boolean) {
-		if (this.sync == sync) return
-		this.sync = sync
-		this.emit('sync_changed', this.sync)
+	public pause(): void {
+		if (this.paused) return
+		this.paused = true
+		if (this.pdelayInterval) clearInterval(this.pdelayInterval)
+		this.pdelayInterval = undefined
+		this.unicastTimers.forEach((timer) => clearTimeout(timer))
+		this.unicastTimers.clear()
+		for (const state of this.domainStates.values()) {
+			this.stopTimeouts(state)
+			this.sync_change(state, false)
+		}
 	}
 
 	/**
-	 * Is the client synced
+	 * Process messages again, measure on the next Sync and restart peer delay and unicast requests
 	 *
 	 */
 
-	public get is_synced(): boolean {
-		return this.sync
+	public resume(): void {
+		if (!this.paused) return
+		this.paused = false
+		for (const state of this.domainStates.values()) {
+			state.monitor.clear()
+			state.measureNow = true
+		}
+		if (this.options.delayMechanism == 'P2P' && this.listeningSockets.has(this.ptpClientEvent)) this.startPdelay()
+		if (this.listeningSockets.has(this.ptpClientGeneral))
+			this.options.unicastMasters.forEach((master) => this.requestUnicast(master))
 	}
 
 	/**
-	 * Who is the ptp_master
-	 * @returns [ clockIdentiy, rinfo.Address ]
+	 * Forget the domains seen on the network, they are found again as messages arrive
 	 *
 	 */
 
-	public get ptp_master(): [string, string] {
-		const ptp: [string, string] = [this.ptpMaster, this.ptpMasterAddress]
-		return ptp
+	public clearDomains(): void {
+		this.domainsFound.clear()
+		this.emit('domains', this.domainsFound.values())
 	}
 
 	/**
-	 * @returns timestamp of last sync event
+	 * Add the current master of a domain to the known clocks
+	 * @returns Clock identity of the master, undefined if the domain is not monitored or has no master
 	 *
 	 */
 
-	public get last_sync(): number {
-		return this.lastSync
+	public approveMaster(domain: number): string | undefined {
+		const state = this.domainStates.get(domain)
+		if (state === undefined || state.ptpMaster == '') return undefined
+		const clockIdentity = clockIdentityOf(state.ptpMaster)
+		this.rogueMasters.approve(domain, clockIdentity)
+		return clockIdentity
 	}
 
 	/**
-	 * PTP Time
-	 * @returns [ Time (seconds), Time (nanoseconds) ]
+	 * Add every rogue master to the known clocks
+	 * @returns Approved clocks as domain:clock identity
 	 *
 	 */
 
-	public get ptp_time(): PtpTime {
-		const time = process.hrtime()
-		// FIX: normalise to handle nanosecond underflow
-		return normalizePtpTime(time[0] - this.offset[0], time[1] - this.offset[1])
+	public approveRogueMasters(): string[] {
+		return this.rogueMasters.rogues.map((rogue) => {
+			this.rogueMasters.approve(rogue.domain, rogue.clockIdentity)
+			return `${rogue.domain}:${rogue.clockIdentity}`
+		})
 	}
 
 	/**
-	 * Get iterator of domains found
+	 * Drop the rogue master alarms without approving the clocks, they are reported again on their next Sync or Announce
 	 *
 	 */
 
-	public get domains(): SetIterator<number> {
-		return this.domainsFound.values()
+	public clearRogueMasters(): void {
+		this.rogueMasters.clear()
+	}
+
+	/**
+	 * Emit scheduled_time at the scheduled times of the primary domain, replacing the schedule with the same id.
+	 * Timers are corrected against PTP time from hrtime, events are emitted up to about 1 ms late with their lateness in ns.
+	 * Nothing is emitted until the first measurement. When the clock steps forward past scheduled times,
+	 * the time that was pending is emitted late and the times after it that have already passed are skipped.
+	 * @returns false if a periodic schedule has no positive period
+	 *
+	 */
+
+	public schedule(id: string, schedule: PtpSchedule): boolean {
+		if (!isValidSchedule(schedule)) return false
+		this.unschedule(id)
+		this.schedules.set(id, { schedule, next: undefined, timer: undefined })
+		this.runSchedule(id)
+		return true
+	}
+
+	public unschedule(id: string): void {
+		const entry = this.schedules.get(id)
+		if (entry === undefined) return
+		this.stopSchedule(entry)
+		this.schedules.delete(id)
+	}
+
+	/**
+	 * Send a management GET request, responses are emitted as management_response
+	 * @param managementId Dataset to read, see ManagementId
+	 * @returns false if the target port identity is not valid
+	 *
+	 */
+
+	public sendManagementGet(managementId: number, target: ManagementTarget = {}): boolean {
+		const targetIdentity = target.portIdentity ? parsePortIdentity(target.portIdentity) : Buffer.alloc(10, 0xff)
+		if (targetIdentity === undefined) return false
+		const addresses = target.address
+			? [target.address]
+			: this.unicast
+				? this.options.unicastMasters
+				: [this.destination(this.multicastAddr(this.ptp_domain))]
+		const buffer = this.ptp_management(managementId, targetIdentity, !!target.address || this.unicast)
+		for (const address of addresses) {
+			this.ptpClientGeneral.send(buffer, 320, address, (err, _bytes) => {
+				if (err) {
+					console.log(err)
+					this.emit('error', err)
+				}
+			})
+		}
+		return true
+	}
+
+	/**
+	 * Join the groups of newly monitored domains and leave those no longer needed
+	 * @param previous Groups before the monitored domains changed
+	 *
+	 */
+
+	private updateMemberships(previous: Set<string>): void {
+		const groups = this.multicastAddrs
+		for (const socket of this.listeningSockets) {
+			try {
+				previous.forEach((group) => {
+					if (!groups.has(group)) socket.dropMembership(group, this.membershipInterface)
+				})
+				groups.forEach((group) => {
+					if (!previous.has(group)) socket.addMembership(group, this.membershipInterface)
+				})
+			} catch (e) {
+				this.emit('error', e as Error)
+			}
+		}
+	}
+
+	/**
+	 * Unique multicast groups of the monitored domains (none in unicast mode), plus the peer delay group in P2P mode
+	 *
+	 */
+
+	private get multicastAddrs(): Set<string> {
+		const groups = new Set(
+			this.unicast ? [] : [...this.domainStates.keys()].map((domain) => this.multicastAddr(domain)),
+		)
+		if (this.options.delayMechanism == 'P2P') groups.add(this.pdelayMulticastAddr)
+		return groups
+	}
+
+	/**
+	 * Multicast group of a domain for the transport in use
+	 *
+	 */
+
+	private multicastAddr(domain: number): string {
+		if (this.family == 4) return ptpMulticastAddr(domain)
+		return ptpMulticastAddr6(this.options.ipv6Scope)
+	}
+
+	private get pdelayMulticastAddr(): string {
+		return this.family == 4 ? PTP_PDELAY_MULTICAST : PTP_PDELAY_MULTICAST6
+	}
+
+	/**
+	 * Interface used to join multicast groups. IPv6 sockets take a scope ('::%eth0') rather than an address
+	 *
+	 */
+
+	private get membershipInterface(): string | undefined {
+		if (this.family == 4) return this.addr
+		return this.zone == '' ? undefined : `::%${this.zone}`
+	}
+
+	/**
+	 * Add the interface zone to IPv6 multicast destinations so they leave through the bound interface
+	 *
+	 */
+
+	private destination(address: string): string {
+		if (this.family == 4 || this.zone == '' || !address.startsWith('ff')) return address
+		return `${address}%${this.zone}`
+	}
+
+	/**
+	 * Pass delta to the servo, which either steps the offset or slews by adjusting the frequency, and mark the domain as synced.
+	 * Samples are only recorded once synced, so the initial step after a master change does not skew the statistics.
+	 * @param delta Offset from master in nanoseconds
+	 * @param pathDelay Mean path delay in nanoseconds
+	 *
+	 */
+
+	private applyDelta(state: DomainState, delta: number, pathDelay: number): void {
+		if (state.sync) {
+			state.offsetStats.add(delta)
+			state.pathDelayStats.add(pathDelay)
+		}
+
+		const now = process.hrtime()
+		this.rebase(state, now)
+		const servo = state.servo.sample(delta, now[0] + now[1] / 1_000_000_000)
+		state.frequency = servo.frequency
+		if (servo.step) {
+			// FIX: use Math.trunc (not %) to correctly split negative deltas,
+			// then normalise the accumulated offset to keep ns within [0, 1e9).
+			// Sub-nanosecond corrections are rounded away so PTP time stays in whole nanoseconds
+			const step = Math.round(delta)
+			const deltaS = Math.trunc(step / 1_000_000_000)
+			const deltaNS = step - deltaS * 1_000_000_000
+
+			state.offset = normalizePtpTime(state.offset[0] + deltaS, state.offset[1] + deltaNS)
+		}
+
+		state.lastSync = Date.now()
+		state.lastSyncTime = domainTime(state, now)
+		if (state.domain == this.ptp_domain) this.emit('ptp_time_synced', this.ptp_time, state.lastSync)
+		this.startSyncTimeout(state)
+		//check if the clock was synced before
+		this.sync_change(state, true)
+		this.emit('domain_updated', state.domain)
+	}
+
+	/**
+	 * Fold the frequency adjustment accumulated since the last rebase into the offset
+	 *
+	 */
+
+	private rebase(state: DomainState, now: PtpTime = process.hrtime()): void {
+		const time = domainTime(state, now)
+		state.offset = normalizePtpTime(now[0] - time[0], now[1] - time[1])
+		state.ref = now
+	}
+
+	private resetServo(state: DomainState): void {
+		this.rebase(state)
+		state.servo.reset()
+		state.frequency = 0
+	}
+
+	/**
+	 * With t1 and ts1 known either start a delay_req exchange (E2E),
+	 * or calculate the offset from the mean link delay and the sync correction (P2P)
+	 *
+	 */
+
+	private measureDelay(state: DomainState): void {
+		state.measureNow = false
+		if (this.options.delayMechanism == 'E2E') {
+			this.sendDelayReq(state)
+			return
+		}
+		if (this.pdelay.meanLinkDelay === undefined) return
+		this.applyDelta(
+			state,
+			diffNs(state.ts1, state.t1) - this.pdelay.meanLinkDelay - state.sync_correction,
+			this.pdelay.meanLinkDelay,
+		)
+	}
+
+	/**
+	 * Send pdelay_req now and every sync interval
+	 *
+	 */
+
+	private startPdelay(): void {
+		if (this.pdelayInterval) clearInterval(this.pdelayInterval)
+		this.sendPdelayReq()
+		this.pdelayInterval = setInterval(() => this.sendPdelayReq(), this.minSyncInterval)
+	}
+
+	private sendPdelayReq(): void {
+		this.ptpClientEvent.send(this.ptp_pdelay_req(), 319, this.destination(this.pdelayMulticastAddr), (err, _bytes) => {
+			if (err) {
+				console.log(err)
+				this.emit('error', err)
+			} else {
+				this.pdelay.t1 = process.hrtime()
+			}
+		})
+	}
+
+	/**
+	 * Create ptp pdelay_req buffer
+	 *
+	 */
+
+	private ptp_pdelay_req(): Buffer<ArrayBuffer> {
+		const buffer = Buffer.alloc(PDELAY_LENGTH)
+		this.pdelay.req_seq = (this.pdelay.req_seq + 1) % 0x10000
+
+		buffer.writeUInt8(0x02, 0)
+		buffer.writeUInt8(2, 1)
+		buffer.writeUInt16BE(PDELAY_LENGTH, 2)
+		buffer.writeUInt8(this.ptp_domain, 4)
+		this.portIdentity.copy(buffer, 20)
+		buffer.writeUInt16BE(this.pdelay.req_seq, 30)
+		buffer.writeUInt8(0x05, 32) //controlField: other
+		buffer.writeInt8(0x7f, 33) //logMessageInterval: not used
+
+		return buffer
+	}
+
+	/**
+	 * One-step responders put the turnaround time in the correctionField,
+	 * two-step responders send t2 here and t3 in the pdelay_resp_follow_up
+	 *
+	 */
+
+	private processPdelayResp(buffer: Buffer, recv_ts: PtpTime): void {
+		if (buffer.readUInt16BE(30) != this.pdelay.req_seq || !this.isOwnRequest(buffer)) return
+		this.pdelay.t4 = recv_ts
+		this.pdelay.t2 = readTimestamp(buffer)
+		this.pdelay.resp_correction = readCorrection(buffer)
+		if ((buffer.readUInt16BE(6) & 0x0200) == 0x0200) return
+		this.setMeanLinkDelay((diffNs(this.pdelay.t4, this.pdelay.t1) - this.pdelay.resp_correction) / 2)
+	}
+
+	private processPdelayRespFollowUp(buffer: Buffer): void {
+		if (buffer.readUInt16BE(30) != this.pdelay.req_seq || !this.isOwnRequest(buffer)) return
+		const t3 = readTimestamp(buffer)
+		const turnaround = diffNs(t3, this.pdelay.t2) + this.pdelay.resp_correction + readCorrection(buffer)
+		this.setMeanLinkDelay((diffNs(this.pdelay.t4, this.pdelay.t1) - turnaround) / 2)
+	}
+
+	private setMeanLinkDelay(meanLinkDelay: number): void {
+		this.pdelay.meanLinkDelay = meanLinkDelay
+		this.emit('pdelay_measured', meanLinkDelay)
+	}
+
+	private get unicast(): boolean {
+		return this.options.unicastMasters.length > 0
+	}
+
+	/**
+	 * Request unicast transmission from a master and retry if no grant arrives
+	 * @param address Master IP address
+	 * @param messageTypes Message types to request, defaults to Announce, Sync and Delay_Resp
+	 *
+	 */
+
+	private requestUnicast(address: string, messageTypes: number[] = UNICAST_REQUESTS.map(([type]) => type)): void {
+		const requests = UNICAST_REQUESTS.filter(([type]) => messageTypes.includes(type))
+		this.ptpClientGeneral.send(this.ptp_signaling(requests), 320, address, (err, _bytes) => {
+			if (err) {
+				console.log(err)
+				this.emit('error', err)
+			}
+		})
+		for (const [type] of requests) {
+			this.scheduleUnicastRequest(address, type, UNICAST_RETRY_INTERVAL)
+		}
+	}
+
+	private scheduleUnicastRequest(address: string, messageType: number, delay: number): void {
+		const key = `${address}/${messageType}`
+		const timer = this.unicastTimers.get(key)
+		if (timer) clearTimeout(timer)
+		this.unicastTimers.set(
+			key,
+			setTimeout(() => this.requestUnicast(address, [messageType]), delay),
+		)
+	}
+
+	/**
+	 * Create ptp signaling buffer with a REQUEST_UNICAST_TRANSMISSION TLV per message type
+	 *
+	 */
+
+	private ptp_signaling(requests: [messageType: number, logInterMessagePeriod: number][]): Buffer<ArrayBuffer> {
+		const length = SIGNALING_HEADER_LENGTH + requests.length * 10
+		const buffer = Buffer.alloc(length)
+		this.signaling_seq = (this.signaling_seq + 1) % 0x10000
+
+		buffer.writeUInt8(0x0c, 0)
+		buffer.writeUInt8(2, 1)
+		buffer.writeUInt16BE(length, 2)
+		buffer.writeUInt8(this.ptp_domain, 4)
+		buffer.writeUInt16BE(0x0400, 6) //unicast flag
+		this.portIdentity.copy(buffer, 20)
+		buffer.writeUInt16BE(this.signaling_seq, 30)
+		buffer.writeUInt8(0x05, 32) //controlField: other
+		buffer.writeInt8(0x7f, 33) //logMessageInterval: not used
+		buffer.fill(0xff, 34, 44) //targetPortIdentity: all ports
+
+		requests.forEach(([messageType, logInterMessagePeriod], index) => {
+			const offset = SIGNALING_HEADER_LENGTH + index * 10
+			buffer.writeUInt16BE(TlvType.RequestUnicastTransmission, offset)
+			buffer.writeUInt16BE(6, offset + 2)
+			buffer.writeUInt8(messageType << 4, offset + 4)
+			buffer.writeInt8(logInterMessagePeriod, offset + 5)
+			buffer.writeUInt32BE(this.options.unicastDuration, offset + 6)
+		})
+
+		return buffer
+	}
+
+	/**
+	 * Create ptp management buffer with an empty MANAGEMENT TLV, as used by GET
+	 * @param target Port identity of the clock to address, all ones for all clocks
+	 *
+	 */
+
+	private ptp_management(managementId: number, target: Buffer, unicast: boolean): Buffer<ArrayBuffer> {
+		const buffer = Buffer.alloc(MANAGEMENT_LENGTH)
+		this.management_seq = (this.management_seq + 1) % 0x10000
+
+		buffer.writeUInt8(0x0d, 0)
+		buffer.writeUInt8(2, 1)
+		buffer.writeUInt16BE(MANAGEMENT_LENGTH, 2)
+		buffer.writeUInt8(this.ptp_domain, 4)
+		if (unicast) buffer.writeUInt16BE(0x0400, 6)
+		this.portIdentity.copy(buffer, 20)
+		buffer.writeUInt16BE(this.management_seq, 30)
+		buffer.writeUInt8(0x04, 32) //controlField: Management
+		buffer.writeInt8(0x7f, 33) //logMessageInterval: not used
+		target.copy(buffer, 34) //targetPortIdentity
+		buffer.writeUInt8(MANAGEMENT_BOUNDARY_HOPS, 44) //startingBoundaryHops
+		buffer.writeUInt8(MANAGEMENT_BOUNDARY_HOPS, 45) //boundaryHops
+		buffer.writeUInt8(ManagementAction.Get, 46)
+
+		buffer.writeUInt16BE(TlvType.Management, MANAGEMENT_HEADER_LENGTH)
+		buffer.writeUInt16BE(2, MANAGEMENT_HEADER_LENGTH + 2)
+		buffer.writeUInt16BE(managementId, MANAGEMENT_HEADER_LENGTH + 4)
+
+		return buffer
+	}
+
+	/**
+	 * Keep responses to our management requests, whose targetPortIdentity (bytes 34-43) is our port identity
+	 *
+	 */
+
+	private processManagement(buffer: Buffer, address: string): void {
+		if (!this.portIdentity.equals(buffer.subarray(34, 44))) return
+		const tlv = parseManagementResponse(buffer)
+		if (tlv === undefined) return
+		const response: ManagementResponse = {
+			source: formatPortIdentity(buffer, 20),
+			address,
+			domain: buffer.readUInt8(4),
+			...tlv,
+			received: Date.now(),
+		}
+		this.managementResponses.set(`${response.source}/${response.managementId}`, response)
+		this.emit('management_response', response)
+	}
+
+	/**
+	 * Record grants and denials from a unicast master and schedule renewal before the grant expires
+	 *
+	 */
+
+	private processSignaling(buffer: Buffer, source: string): void {
+		//grants are kept under the configured address so renewals replace the pending retries
+		const address = this.options.unicastMasters.find((master) => sameAddress(master, source))
+		if (address === undefined) return
+		for (const tlv of parseGrantTlvs(buffer)) {
+			const denied = tlv.durationField == 0
+			const grant: UnicastGrant = {
+				address,
+				messageType: tlv.messageType,
+				granted: !denied,
+				denied,
+				logInterMessagePeriod: tlv.logInterMessagePeriod,
+				duration: tlv.durationField,
+				expires: Date.now() + tlv.durationField * 1000,
+			}
+			this.unicastGrants.set(`${address}/${tlv.messageType}`, grant)
+			this.scheduleUnicastRequest(
+				address,
+				tlv.messageType,
+				denied ? UNICAST_RETRY_INTERVAL : Math.max(1000, tlv.durationField * 750),
+			)
+			this.emit('unicast_grant', grant)
+		}
+	}
+
+	/**
+	 * Send delay_req on the next tick and capture t2 once it has been sent
+	 *
+	 */
+
+	private sendDelayReq(state: DomainState): void {
+		if (state.monitor.delayReqSent()) this.reportMissing(state, ['Delay_Resp'])
+		setImmediate(() => {
+			const address = this.unicast ? state.ptpMasterAddress : this.destination(this.multicastAddr(state.domain))
+			this.ptpClientEvent.send(this.ptp_delay_req(state), 319, address, (err, _bytes) => {
+				if (err) {
+					console.log(err)
+					this.emit('error', err)
+				} else {
+					// FIX: only capture t2 after the packet has actually been sent
+					state.t2 = domainTime(state)
+				}
+			})
+		})
+		// FIX: removed redundant pre-send t2 assignment that was always overwritten
+	}
+
+	/**
+	 * Create ptp delay_req buffer
+	 *
+	 */
+
+	private ptp_delay_req(state: DomainState): Buffer<ArrayBuffer> {
+		const buffer = Buffer.alloc(DELAY_REQ_LENGTH)
+		state.req_seq = (state.req_seq + 1) % 0x10000
+
+		buffer.writeUInt8(1, 0)
+		buffer.writeUInt8(2, 1)
+		buffer.writeUInt16BE(DELAY_REQ_LENGTH, 2)
+		// FIX: set the domain byte so masters on non-zero domains respond correctly
+		buffer.writeUInt8(state.domain, 4)
+		if (this.unicast) buffer.writeUInt16BE(0x0400, 6)
+		this.portIdentity.copy(buffer, 20)
+		buffer.writeUInt16BE(state.req_seq, 30)
+		buffer.writeUInt8(0x01, 32) //controlField: Delay_Req
+		buffer.writeInt8(0x7f, 33) //logMessageInterval: not used
+		//originTimestamp is optional and left at zero, t2 is captured once the message has been sent
+
+		return buffer
+	}
+
+	/**
+	 * Add the sender of any PTPv2 message to the foreign master table, whether or not its domain is monitored.
+	 * Our own multicast requests loop back and are skipped.
+	 *
+	 */
+
+	private recordClock(buffer: Buffer, address: string): void {
+		if (buffer.readUInt8(1) != 2 || this.portIdentity.equals(buffer.subarray(20, 30))) return
+		const type = buffer.readUInt8(0) & 0x0f
+		const announce = type == 0x0b ? parseAnnounce(buffer) : undefined
+		const portIdentity = formatPortIdentity(buffer, 20)
+		const domain = buffer.readUInt8(4)
+		if (this.foreignMasters.record(portIdentity, address, domain, type, announce)) {
+			const clock = this.foreignMasters.get(portIdentity, domain)
+			if (clock) this.emit('foreign_master', clock)
+		}
+		//only Sync and Announce sources can take over a monitored domain
+		if (this.options.knownClocks === undefined || (type != 0x00 && type != 0x0b) || !this.domainStates.has(domain))
+			return
+		if (this.rogueMasters.check(portIdentity, address, domain)) {
+			const rogue = this.rogueMasters.rogues.find((r) => r.portIdentity == portIdentity && r.domain == domain)
+			if (rogue) this.emit('rogue_master', rogue)
+		}
+	}
+
+	private stopSchedule(entry: ScheduleEntry): void {
+		if (entry.timer) clearTimeout(entry.timer)
+		entry.timer = undefined
+	}
+
+	/**
+	 * Emit the scheduled time if it has been reached, otherwise wait for it with a timer. Timers have millisecond
+	 * granularity, so events are up to about a millisecond late rather than spinning the event loop to be exact
+	 *
+	 */
+
+	private runSchedule(id: string): void {
+		const entry = this.schedules.get(id)
+		if (entry === undefined) return
+		this.stopSchedule(entry)
+		//PTP time is the free running local clock until the first measurement
+		if (this.last_sync == 0) {
+			entry.timer = setTimeout(() => this.runSchedule(id), SCHEDULE_MAX_WAIT)
+			return
+		}
+		const now = this.ptp_time
+		entry.next ??= nextScheduledTime(entry.schedule, now)
+		if (entry.next === undefined) {
+			this.schedules.delete(id)
+			return
+		}
+		const remaining = ptpTimeToNs(entry.next) - ptpTimeToNs(now)
+		if (remaining <= 0n) {
+			const time = entry.next
+			entry.next = nextScheduledTime(entry.schedule, now)
+			this.emit('scheduled_time', id, time, Number(-remaining))
+			//a listener may have replaced or removed the schedule
+			if (this.schedules.get(id) === entry) this.runSchedule(id)
+		} else {
+			//a timer that wakes early is re-armed for the rest
+			const wait = Math.min(Math.ceil(Number(remaining) / 1_000_000), SCHEDULE_MAX_WAIT)
+			entry.timer = setTimeout(() => this.runSchedule(id), wait)
+		}
+	}
+
+	/**
+	 * Whether the source of a Sync may be followed under the master selection policy
+	 *
+	 */
+
+	private isSelectedMaster(state: DomainState, source: string, address: string): boolean {
+		const locked = this.options.lockedMaster.trim().toLowerCase()
+		switch (this.options.masterSelection) {
+			case 'locked':
+				if (isIP(locked) != 0) return sameAddress(address, locked)
+				return locked.includes(':') ? source == locked : clockIdentityOf(source) == locked
+			case 'bmca':
+				return state.bmca.best?.source == source
+			default:
+				return true
+		}
+	}
+
+	/**
+	 * Count a message of a source that is not the selected master, the foreign master table counts it per clock
+	 *
+	 */
+
+	private ignoreMessage(state: DomainState, type: number): void {
+		const name = messageTypeName(type)
+		state.ignored[name] = (state.ignored[name] ?? 0) + 1
+	}
+
+	/**
+	 * Responses on a multicast segment reach every slave, only accept those whose
+	 * requestingPortIdentity (bytes 44-53) is our port identity
+	 *
+	 */
+
+	private isOwnRequest(buffer: Buffer): boolean {
+		return buffer.length >= 54 && this.portIdentity.equals(buffer.subarray(44, 54))
+	}
+
+	/**
+	 * Decode an announce message and keep the grandmaster dataset of the master we follow.
+	 * Until a Sync has been seen any announcing master is accepted.
+	 *
+	 */
+
+	private processAnnounce(state: DomainState, buffer: Buffer, address: string): void {
+		const dataset = parseAnnounce(buffer)
+		if (dataset === undefined) return
+		const source = formatPortIdentity(buffer, 20)
+		const primary = state.domain == this.ptp_domain
+		this.emit('announce', dataset, source, address, state.domain)
+		if (dataset.stepsRemoved == 0) this.claimMaster(state, source, address)
+		if (state.bmca.update(source, address, dataset, buffer.readInt8(33))) this.bmcaChanged(state)
+		this.startBmcaTimeout(state)
+		if (state.ptpMaster != '' && source != state.ptpMaster) return
+		this.recordInterval(state, 'logAnnounceInterval', buffer)
+		state.monitor.arrival('Announce', buffer.readInt8(33))
+		this.startAnnounceTimeout(state, buffer.readInt8(33))
+		this.processSmpte(state, buffer, ANNOUNCE_LENGTH, address)
+		if (isEqual(dataset, state.grandmasterDataset)) return
+		state.grandmasterDataset = dataset
+		if (primary) this.emit('grandmaster_changed', dataset, address)
+		this.emit('domain_updated', state.domain)
+	}
+
+	/**
+	 * Decode the SMPTE ST 2059-2 synchronization metadata TLV sent by the master we follow or its grandmaster
+	 * @param start Byte offset of the first TLV
+	 *
+	 */
+
+	private processSmpte(state: DomainState, buffer: Buffer, start: number, address: string): void {
+		const metadata = parseSmpteTlv(buffer, start)
+		if (metadata === undefined) return
+		if (
+			state.ptpMaster != '' &&
+			formatPortIdentity(buffer, 20) != state.ptpMaster &&
+			formatClockIdentity(buffer, 20) != state.grandmasterDataset?.grandmasterIdentity
+		)
+			return
+		if (isEqual(metadata, state.smpte)) return
+		state.smpte = metadata
+		if (state.domain == this.ptp_domain) this.emit('smpte_metadata', metadata, address)
+		this.emit('domain_updated', state.domain)
+	}
+
+	/**
+	 * Keep the logMessageInterval (byte 33) of a message from the master, unicast messages carry 0x7f
+	 *
+	 */
+
+	private recordInterval(state: DomainState, interval: keyof PtpMessageIntervals, buffer: Buffer): void {
+		const logMessageInterval = buffer.readInt8(33)
+		if (logMessageInterval == 0x7f || state.intervals[interval] == logMessageInterval) return
+		state.intervals[interval] = logMessageInterval
+		this.emit('domain_updated', state.domain)
+	}
+
+	/**
+	 * Count an announceReceiptTimeout if the master does not announce within 3 announce intervals
+	 * @param logAnnounceInterval From the announce header, unicast announces use the default of 2 s
+	 *
+	 */
+
+	private startAnnounceTimeout(state: DomainState, logAnnounceInterval: number): void {
+		if (state.announceTimeout) clearTimeout(state.announceTimeout)
+		const interval =
+			Math.pow(2, logAnnounceInterval == 0x7f ? DEFAULT_LOG_ANNOUNCE_INTERVAL : logAnnounceInterval) * 1000
+		state.announceTimeout = setTimeout(() => {
+			state.announceTimeout = undefined
+			state.monitor.announceTimeout()
+			this.reportMissing(state, ['Announce'])
+		}, interval * ANNOUNCE_RECEIPT_TIMEOUT)
+	}
+
+	/**
+	 * Expire the foreign masters of a domain when the next one times out, as no Announce may arrive to do it
+	 *
+	 */
+
+	private startBmcaTimeout(state: DomainState): void {
+		if (state.bmcaTimeout) clearTimeout(state.bmcaTimeout)
+		state.bmcaTimeout = undefined
+		const expiry = state.bmca.nextExpiry
+		if (expiry === undefined) return
+		state.bmcaTimeout = setTimeout(
+			() => {
+				state.bmcaTimeout = undefined
+				if (state.bmca.expire()) this.bmcaChanged(state)
+				this.startBmcaTimeout(state)
+			},
+			Math.max(0, expiry - Date.now()) + 1,
+		)
+	}
+
+	private bmcaChanged(state: DomainState): void {
+		if (state.domain == this.ptp_domain) this.emit('bmca_changed', state.bmca.best, state.bmca.decidingAttribute)
+		this.emit('domain_updated', state.domain)
+	}
+
+	private reportMissing(state: DomainState, missing: MonitoredMessage[]): void {
+		if (missing.length == 0) return
+		missing.forEach((type) => this.emit('message_missed', type, state.domain))
+		this.emit('domain_updated', state.domain)
+	}
+
+	/**
+	 * Record a clock acting as master and report when the set of competing masters changes
+	 *
+	 */
+
+	private claimMaster(state: DomainState, source: string, address: string): void {
+		if (!state.conflict.claim(source, address)) return
+		this.emit('master_conflict', state.conflict.conflicting, state.domain)
+		this.emit('domain_updated', state.domain)
+	}
+
+	private stopTimeouts(state: DomainState): void {
+		if (state.syncTimeout) clearTimeout(state.syncTimeout)
+		if (state.announceTimeout) clearTimeout(state.announceTimeout)
+		if (state.bmcaTimeout) clearTimeout(state.bmcaTimeout)
+		state.syncTimeout = undefined
+		state.announceTimeout = undefined
+		state.bmcaTimeout = undefined
+	}
+
+	/**
+	 * A measurement is due once the minimum sync interval has passed, or when one was requested
+	 *
+	 */
+
+	private measurementDue(state: DomainState): boolean {
+		return state.measureNow || Date.now() - state.lastSync > this.minSyncInterval
+	}
+
+	private startSyncTimeout(state: DomainState): void {
+		if (state.syncTimeout) clearTimeout(state.syncTimeout)
+		state.syncTimeout = setTimeout(() => {
+			this.sync_change(state, false)
+		}, this.minSyncInterval * 2)
+	}
+
+	/**
+	 * Check if we have seen this domain before and if not emit event with set of found domains
+	 *
+	 */
+
+	private addDomain(domain: number): void {
+		if (this.domainsFound.has(domain)) return
+		this.domainsFound.add(domain)
+		this.emit(`domains`, this.domainsFound.values())
+	}
+
+	/**
+	 * Check sync state and if changed emit event
+	 *
+	 */
+
+	private sync_change(state: DomainState, sync: boolean) {
+		if (state.sync == sync) return
+		state.sync = sync
+		if (state.domain == this.ptp_domain) this.emit('sync_changed', state.sync)
+		this.emit('domain_updated', state.domain)
+	}
+
+	private get primary(): DomainState {
+		return this.domainStates.get(this.ptp_domain) ?? newDomainState(this.ptp_domain)
+	}
+
+	private static followingBest(state: DomainState): boolean {
+		const best = state.bmca.best
+		if (best === undefined || state.ptpMaster == '') return true
+		return best.source == state.ptpMaster
+	}
+
+	/**
+	 * @returns SMPTE ST 2059-2 synchronization metadata of the primary domain, if the master sends it
+	 *
+	 */
+
+	public get smpte_metadata(): SmpteSynchronizationMetadata | undefined {
+		return this.primary.smpte
+	}
+
+	/**
+	 * @returns Port identity the client sends requests with, e.g. aa-bb-cc-ff-fe-dd-ee-ff:1
+	 *
+	 */
+
+	public get clock_identity(): string {
+		return formatPortIdentity(this.portIdentity, 0)
+	}
+
+	/**
+	 * Is the client synced
+	 *
+	 */
+
+	public get is_synced(): boolean {
+		return this.primary.sync
+	}
+
+	/**
+	 * Who is the ptp_master
+	 * @returns [ clockIdentiy, rinfo.Address ]
+	 *
+	 */
+
+	public get ptp_master(): [string, string] {
+		const ptp: [string, string] = [this.primary.ptpMaster, this.primary.ptpMasterAddress]
+		return ptp
+	}
+
+	/**
+	 * Grandmaster dataset from the latest Announce of the followed master
+	 * @returns undefined until an Announce has been received
+	 *
+	 */
+
+	public get grandmaster(): GrandmasterDataset | undefined {
+		return this.primary.grandmasterDataset
+	}
+
+	/**
+	 * Foreign masters of the domain ranked by the Best Master Clock Algorithm
+	 * @returns Qualified foreign masters, best first
+	 *
+	 */
+
+	public get bmca_ranking(): ForeignMaster[] {
+		return this.primary.bmca.ranking
+	}
+
+	/**
+	 * Who should be ptp_master according to the BMCA
+	 * @returns [ best foreign master, attribute that ranked it above the runner up ]
+	 *
+	 */
+
+	public get bmca_best(): [ForeignMaster | undefined, BmcaAttribute] {
+		return [this.primary.bmca.best, this.primary.bmca.decidingAttribute]
+	}
+
+	/**
+	 * Is ptp_master the master the BMCA selects. True while either is unknown.
+	 *
+	 */
+
+	public get following_best(): boolean {
+		return PTPv2Client.followingBest(this.primary)
+	}
+
+	/**
+	 * @returns timestamp of last sync event
+	 *
+	 */
+
+	public get last_sync(): number {
+		return this.primary.lastSync
+	}
+
+	/**
+	 * @returns PTP time of the last sync event, [0, 0] before the first
+	 *
+	 */
+
+	public get last_sync_time(): PtpTime {
+		return this.primary.lastSyncTime
+	}
+
+	/**
+	 * PTP Time
+	 * @returns [ Time (seconds), Time (nanoseconds) ]
+	 *
+	 */
+
+	public get ptp_time(): PtpTime {
+		// FIX: normalise to handle nanosecond underflow
+		return domainTime(this.primary)
+	}
+
+	/**
+	 * @returns Next scheduled time of each schedule, ordered by time. Empty until the first measurement
+	 *
+	 */
+
+	public get scheduled_times(): { id: string; time: PtpTime }[] {
+		return [...this.schedules.entries()]
+			.flatMap(([id, entry]) => (entry.next === undefined ? [] : [{ id, time: entry.next }]))
+			.sort((a, b) => (ptpTimeToNs(a.time) < ptpTimeToNs(b.time) ? -1 : 1))
+	}
+
+	/**
+	 * Offset from master and mean path delay over the statistics window
+	 * @returns Summaries in nanoseconds for the primary domain
+	 *
+	 */
+
+	public get statistics(): PtpStatistics {
+		return { offset: this.primary.offsetStats.summary, pathDelay: this.primary.pathDelayStats.summary }
+	}
+
+	/**
+	 * @returns logMessageInterval of the Sync, Announce and Delay_Resp messages of the primary domain master
+	 *
+	 */
+
+	public get message_intervals(): PtpMessageIntervals {
+		return { ...this.primary.intervals }
+	}
+
+	/**
+	 * @returns Measured and advertised rates and miss counters of the primary domain per message type
+	 *
+	 */
+
+	public get message_rates(): Record<MonitoredMessage, MessageRate> {
+		return this.primary.monitor.rates
+	}
+
+	/**
+	 * @returns Clocks competing to be master of the primary domain, empty if there is no conflict
+	 *
+	 */
+
+	public get master_conflict(): MasterClaim[] {
+		return this.primary.conflict.conflicting
+	}
+
+	/**
+	 * @returns Every PTP clock heard on any domain, ordered by domain then port identity
+	 *
+	 */
+
+	public get foreign_masters(): ForeignClock[] {
+		return this.foreignMasters.clocks
+	}
+
+	/**
+	 * @returns Clocks sending Sync or Announce on a monitored domain that are not known clocks, ordered by first seen
+	 *
+	 */
+
+	public get rogue_masters(): RogueMaster[] {
+		return this.rogueMasters.rogues
+	}
+
+	/**
+	 * @returns Clocks allowed to act as master as domain:clock identity, including approved clocks
+	 *
+	 */
+
+	public get known_clocks(): string[] {
+		return this.rogueMasters.known
+	}
+
+	/**
+	 * Clock servo of the primary domain
+	 * @returns state, applied frequency adjustment and estimated oscillator error in ppb
+	 *
+	 */
+
+	public get servo_status(): ServoStatus {
+		const servo = this.primary.servo
+		return { state: servo.state, frequency: servo.frequency, drift: servo.drift }
+	}
+
+	/**
+	 * Mean link delay to the peer measured with pdelay (P2P only)
+	 * @returns nanoseconds, undefined until a pdelay exchange has completed
+	 *
+	 */
+
+	public get mean_link_delay(): number | undefined {
+		return this.pdelay.meanLinkDelay
+	}
+
+	/**
+	 * Unicast grants received from the configured masters
+	 *
+	 */
+
+	public get unicast_grants(): UnicastGrant[] {
+		const now = Date.now()
+		return [...this.unicastGrants.values()].map((grant) => ({
+			...grant,
+			granted: grant.granted && grant.expires > now,
+		}))
+	}
+
+	/**
+	 * Latest response of each clock to each management GET, oldest first
+	 *
+	 */
+
+	public get management_responses(): ManagementResponse[] {
+		return [...this.managementResponses.values()].sort((a, b) => a.received - b.received)
+	}
+
+	/**
+	 * Get iterator of domains found
+	 *
+	 */
+
+	public get domains(): SetIterator<number> {
+		return this.domainsFound.values()
+	}
+
+	/**
+	 * @returns Monitored domains, primary domain first
+	 *
+	 */
+
+	public get monitored_domains(): number[] {
+		return [...this.domainStates.keys()]
+	}
+
+	/**
+	 * Is monitoring paused
+	 *
+	 */
+
+	public get is_paused(): boolean {
+		return this.paused
+	}
+
+	/**
+	 * State of a monitored domain
+	 * @returns undefined if the domain is not monitored
+	 *
+	 */
+
+	public getDomainStatus(domain: number): PtpDomainStatus | undefined {
+		const state = this.domainStates.get(domain)
+		if (state === undefined) return undefined
+		return {
+			domain,
+			synced: state.sync,
+			ptpMaster: state.ptpMaster,
+			ptpMasterAddress: state.ptpMasterAddress,
+			masterChanged: state.masterChanged,
+			lastSync: state.lastSync,
+			ptpTime: domainTime(state),
+			grandmaster: state.grandmasterDataset,
+			followingBest: PTPv2Client.followingBest(state),
+			intervals: { ...state.intervals },
+			messages: state.monitor.rates,
+			masterConflict: state.conflict.conflicting,
+			statistics: { offset: state.offsetStats.summary, pathDelay: state.pathDelayStats.summary },
+			ignored: { ...state.ignored },
+		}
 	}
 }
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { invalidKnownClocks, parseKnownClocks, RogueMasterDetector } from './rogue.js'
+
+describe('parseKnownClocks', () => {
+	it('keeps valid domain:clock identity entries in lower case', () => {
+		expect(
+			parseKnownClocks('0:00-1D-C1-FF-FE-12-34-56, 127:00-11-22-33-44-55-66-77\n128:00-11-22-33-44-55-66-77'),
+		).toEqual(['0:00-1d-c1-ff-fe-12-34-56', '127:00-11-22-33-44-55-66-77'])
+		expect(parseKnownClocks('00-11-22-33-44-55-66-77, 0:00-11-22:1, ')).toEqual([])
+	})
+
+	it('lists the entries it ignores as written', () => {
+		expect(invalidKnownClocks('0:00-1D-C1-FF-FE-12-34-56, 128:00-11-22-33-44-55-66-77 00-11-22 ')).toEqual([
+			'128:00-11-22-33-44-55-66-77',
+			'00-11-22',
+		])
+	})
+})
+
+describe('RogueMasterDetector', () => {
+	it('reports unknown clocks once per domain', () => {
+		const detector = new RogueMasterDetector(['0:00-11-22-33-44-55-66-77'])
+		expect(detector.check('00-11-22-33-44-55-66-77:1', '10.0.0.1', 0, 1000)).toBe(false)
+		expect(detector.check('aa-bb-cc-dd-ee-ff-00-11:1', '10.0.0.2', 0, 1000)).toBe(true)
+		expect(detector.check('aa-bb-cc-dd-ee-ff-00-11:1', '10.0.0.2', 0, 2000)).toBe(false)
+		expect(detector.check('00-11-22-33-44-55-66-77:1', '10.0.0.1', 1, 3000)).toBe(true)
+		expect(detector.rogues).toEqual([
+			{
+				clockIdentity: 'aa-bb-cc-dd-ee-ff-00-11',
+				portIdentity: 'aa-bb-cc-dd-ee-ff-00-11:1',
+				address: '10.0.0.2',
+				domain: 0,
+				firstSeen: 1000,
+				lastSeen: 2000,
+			},
+			{
+				clockIdentity: '00-11-22-33-44-55-66-77',
+				portIdentity: '00-11-22-33-44-55-66-77:1',
+				address: '10.0.0.1',
+				domain: 1,
+				firstSeen: 3000,
+				lastSeen: 3000,
+			},
+		])
+	})
+
+	it('drops the alarm of approved clocks', () => {
+		const detector = new RogueMasterDetector()
+		detector.check('aa-bb-cc-dd-ee-ff-00-11:1', '10.0.0.2', 4)
+		expect(detector.approve(4, 'AA-BB-CC-DD-EE-FF-00-11')).toBe(true)
+		expect(detector.approve(4, 'aa-bb-cc-dd-ee-ff-00-11')).toBe(false)
+		expect(detector.rogues).toEqual([])
+		expect(detector.check('aa-bb-cc-dd-ee-ff-00-11:2', '10.0.0.2', 4)).toBe(false)
+		expect(detector.known).toEqual(['4:aa-bb-cc-dd-ee-ff-00-11'])
+	})
+
+	it('reports cleared clocks again', () => {
+		const detector = new RogueMasterDetector()
+		detector.check('aa-bb-cc-dd-ee-ff-00-11:1', '10.0.0.2', 0)
+		detector.clear()
+		expect(detector.rogues).toEqual([])
+		expect(detector.check('aa-bb-cc-dd-ee-ff-00-11:1', '10.0.0.2', 0)).toBe(true)
+	})
+})
@@ -0,0 +1,136 @@
+export interface RogueMaster {
+	/** Clock identity, the port identity without the port number */
+	clockIdentity: string
+	portIdentity: string
+	address: string
+	domain: number
+	/** Date.now() of the first Sync or Announce */
+	firstSeen: number
+	/** Date.now() of the last Sync or Announce */
+	lastSeen: number
+}
+
+const CLOCK_IDENTITY = /^[0-9a-f]{2}(-[0-9a-f]{2}){7}$/
+
+/**
+ * @returns Clock identity of a port identity formatted as xx-xx-xx-xx-xx-xx-xx-xx:port
+ *
+ */
+
+export const clockIdentityOf = (portIdentity: string): string => portIdentity.split(':')[0]
+
+/**
+ * @returns true if a lower case entry is domain:clock identity
+ *
+ */
+
+const isKnownClock = (entry: string): boolean => {
+	const [domain, clockIdentity, ...rest] = entry.split(':')
+	return rest.length == 0 && /^\d+$/.test(domain) && Number(domain) <= 127 && CLOCK_IDENTITY.test(clockIdentity ?? '')
+}
+
+/**
+ * Parse a list of known clocks
+ * @param text Comma or whitespace separated domain:clock identity entries, e.g. 0:00-1d-c1-ff-fe-12-34-56
+ * @returns Valid entries, normalised to lower case
+ *
+ */
+
+export function parseKnownClocks(text: string): string[] {
+	return text
+		.split(/[\s,]+/)
+		.map((entry) => entry.trim().toLowerCase())
+		.filter(isKnownClock)
+}
+
+/**
+ * @returns Entries of a list of known clocks that parseKnownClocks ignores, as written
+ *
+ */
+
+export function invalidKnownClocks(text: string): string[] {
+	return text.split(/[\s,]+/).filter((entry) => entry != '' && !isKnownClock(entry.toLowerCase()))
+}
+
+/**
+ * Clocks sending Sync or Announce on a domain without being on the list of clocks known to act as master there
+ * @param known Known clocks as domain:clock identity
+ *
+ */
+
+export class RogueMasterDetector {
+	#known: Set<string>
+	#rogues: Map<string, RogueMaster> = new Map()
+
+	constructor(known: string[] = []) {
+		this.#known = new Set(known)
+	}
+
+	/**
+	 * Check the source of a Sync or Announce
+	 * @param portIdentity Source port identity of the message
+	 * @param address IP address of the clock
+	 * @param now Receipt time in ms
+	 * @returns true if the clock is a rogue master that was not reported before
+	 *
+	 */
+
+	public check(portIdentity: string, address: string, domain: number, now: number = Date.now()): boolean {
+		const clockIdentity = clockIdentityOf(portIdentity)
+		const key = `${domain}:${clockIdentity}`
+		if (this.#known.has(key)) return false
+		const rogue = this.#rogues.get(key)
+		if (rogue) {
+			rogue.lastSeen = now
+			rogue.address = address
+			return false
+		}
+		this.#rogues.set(key, { clockIdentity, portIdentity, address, domain, firstSeen: now, lastSeen: now })
+		return true
+	}
+
+	/**
+	 * Add a clock to the known clocks of a domain and drop its alarm
+	 * @returns true if the clock was not known before
+	 *
+	 */
+
+	public approve(domain: number, clockIdentity: string): boolean {
+		const key = `${domain}:${clockIdentity.toLowerCase()}`
+		this.#rogues.delete(key)
+		if (this.#known.has(key)) return false
+		this.#known.add(key)
+		return true
+	}
+
+	/**
+	 * Drop the alarms without approving the clocks, they are reported again on their next Sync or Announce
+	 *
+	 */
+
+	public clear(): void {
+		this.#rogues.clear()
+	}
+
+	/**
+	 * @returns Known clocks as domain:clock identity, ordered by domain then clock identity
+	 *
+	 */
+
+	public get known(): string[] {
+		return [...this.#known].sort((a, b) => {
+			const [domainA, identityA] = a.split(':')
+			const [domainB, identityB] = b.split(':')
+			return Number(domainA) - Number(domainB) || (identityA < identityB ? -1 : 1)
+		})
+	}
+
+	/**
+	 * @returns Copies of the rogue masters, ordered by first seen
+	 *
+	 */
+
+	public get rogues(): RogueMaster[] {
+		return [...this.#rogues.values()].map((rogue) => ({ ...rogue })).sort((a, b) => a.firstSeen - b.firstSeen)
+	}
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+	nextScheduledTime,
+	nsToPtpTime,
+	parseScheduledTime,
+	previousScheduledTime,
+	ptpTimeToNs,
+	type PtpSchedule,
+} from './scheduler.js'
+
+describe('nextScheduledTime', () => {
+	it('finds the next whole second boundary', () => {
+		const schedule: PtpSchedule = { type: 'every', numerator: 1, denominator: 1, offset: 0 }
+		expect(nextScheduledTime(schedule, [100, 250_000_000])).toEqual([101, 0])
+		expect(nextScheduledTime(schedule, [100, 0])).toEqual([101, 0])
+		expect(previousScheduledTime(schedule, [100, 0])).toEqual([100, 0])
+		expect(previousScheduledTime(schedule, [100, 999_999_999])).toEqual([100, 0])
+	})
+
+	it('aligns N second boundaries to the offset', () => {
+		const schedule: PtpSchedule = { type: 'every', numerator: 60, denominator: 1, offset: 37 }
+		expect(nextScheduledTime(schedule, [1_700_000_000, 0])).toEqual([1_700_000_017, 0])
+		expect(previousScheduledTime(schedule, [1_700_000_000, 0])).toEqual([1_699_999_957, 0])
+	})
+
+	it('rounds frame boundaries of non-integer rates up to the next nanosecond', () => {
+		// 29.97 fps: one frame is 1001/30000 s = 33366666.67 ns
+		const schedule: PtpSchedule = { type: 'every', numerator: 1001, denominator: 30000, offset: 0 }
+		expect(nextScheduledTime(schedule, [0, 0])).toEqual([0, 33_366_667])
+		expect(nextScheduledTime(schedule, [0, 33_366_667])).toEqual([0, 66_733_334])
+		expect(previousScheduledTime(schedule, [0, 33_366_666])).toEqual([0, 0])
+		// 30000 frames take exactly 1001 s
+		expect(nextScheduledTime(schedule, [1000, 999_999_999])).toEqual([1001, 0])
+	})
+
+	it('returns a single time only while it is ahead', () => {
+		const schedule: PtpSchedule = { type: 'once', time: [200, 500] }
+		expect(nextScheduledTime(schedule, [200, 499])).toEqual([200, 500])
+		expect(nextScheduledTime(schedule, [200, 500])).toBeUndefined()
+		expect(previousScheduledTime(schedule, [200, 499])).toBeUndefined()
+		expect(previousScheduledTime(schedule, [300, 0])).toEqual([200, 500])
+	})
+
+	it('splits negative nanosecond counts', () => {
+		expect(nsToPtpTime(-1n)).toEqual([-1, 999_999_999])
+	})
+
+	it('rounds sub-nanosecond times', () => {
+		expect(ptpTimeToNs([1, 0.5])).toBe(1_000_000_001n)
+		expect(nextScheduledTime({ type: 'every', numerator: 1, denominator: 1, offset: 0 }, [1, 0.25])).toEqual([2, 0])
+	})
+})
+
+describe('parseScheduledTime', () => {
+	it('converts UTC dates to PTP time', () => {
+		expect(parseScheduledTime('2026-10-19T20:00:00.250Z', 37)).toEqual({
+			type: 'once',
+			time: [Date.UTC(2026, 9, 19, 20) / 1000 + 37, 250_000_000],
+		})
+		expect(parseScheduledTime('2026-10-19T20:00:00', 37)).toEqual(parseScheduledTime('2026-10-19T20:00:00Z', 37))
+		expect(parseScheduledTime('2026-10-19T22:00:00+02:00', 37)).toEqual(parseScheduledTime('2026-10-19T20:00:00Z', 37))
+	})
+
+	it('reads TAI dates without the UTC offset', () => {
+		expect(parseScheduledTime('1970-01-01T00:00:10Z', 37, 'tai')).toEqual({ type: 'once', time: [10, 0] })
+	})
+
+	it('reads dates and times of day without a zone as local time', () => {
+		expect(parseScheduledTime('2026-10-19T22:00:00', 37, 'local', 7200)).toEqual(
+			parseScheduledTime('2026-10-19T20:00:00Z', 37),
+		)
+		expect(parseScheduledTime('2026-10-19T20:00:00Z', 37, 'local', 7200)).toEqual(
+			parseScheduledTime('2026-10-19T20:00:00Z', 37),
+		)
+		expect(parseScheduledTime('20:30', 37, 'local', -3600)).toMatchObject({ offset: 37 + 3600 + 20 * 3600 + 30 * 60 })
+	})
+
+	it('repeats a time of day every day', () => {
+		expect(parseScheduledTime('20:30', 37)).toEqual({
+			type: 'every',
+			numerator: 86400,
+			denominator: 1,
+			offset: 37 + 20 * 3600 + 30 * 60,
+		})
+		expect(parseScheduledTime('24:00:00', 37)).toBeUndefined()
+	})
+
+	it('rejects other text', () => {
+		expect(parseScheduledTime('', 37)).toBeUndefined()
+		expect(parseScheduledTime('tonight', 37)).toBeUndefined()
+	})
+})
@@ -0,0 +1,120 @@
+import type { PtpTime } from './ptpv2.js'
+
+const NS_PER_SECOND = 1_000_000_000n
+
+/**
+ * A single PTP time, or boundaries every numerator/denominator seconds counted from the PTP epoch plus an offset.
+ * N seconds are N/1, N frames at num/den fps are N·den/num, and an offset of TAI - UTC aligns the boundaries to UTC.
+ *
+ */
+
+export type PtpSchedule =
+	| { type: 'once'; time: PtpTime }
+	| { type: 'every'; numerator: number; denominator: number; offset: number }
+
+export type ScheduleTimescale = 'local' | 'utc' | 'tai'
+
+/**
+ * @returns Nanoseconds of a PTP time, rounding sub-nanosecond parts that BigInt cannot take
+ *
+ */
+
+export const ptpTimeToNs = (time: PtpTime): bigint =>
+	BigInt(Math.round(time[0])) * NS_PER_SECOND + BigInt(Math.round(time[1]))
+
+export const nsToPtpTime = (ns: bigint): PtpTime => {
+	const seconds = ns >= 0n ? ns / NS_PER_SECOND : -((-ns + NS_PER_SECOND - 1n) / NS_PER_SECOND)
+	return [Number(seconds), Number(ns - seconds * NS_PER_SECOND)]
+}
+
+/**
+ * Floor division of bigints, rounding towards negative infinity
+ *
+ */
+
+const floorDiv = (a: bigint, b: bigint): bigint => (a % b != 0n && a < 0n != b < 0n ? a / b - 1n : a / b)
+
+/**
+ * Start of boundary k of a periodic schedule, rounded up to the next nanosecond like frame starts
+ *
+ */
+
+const boundary = (schedule: PtpSchedule & { type: 'every' }, k: bigint): bigint =>
+	BigInt(schedule.offset) * NS_PER_SECOND -
+	floorDiv(-k * BigInt(schedule.numerator) * NS_PER_SECOND, BigInt(schedule.denominator))
+
+/**
+ * Index of the last boundary at or before a time
+ *
+ */
+
+const boundaryIndex = (schedule: PtpSchedule & { type: 'every' }, ns: bigint): bigint =>
+	floorDiv(
+		(ns - BigInt(schedule.offset) * NS_PER_SECOND) * BigInt(schedule.denominator),
+		BigInt(schedule.numerator) * NS_PER_SECOND,
+	)
+
+/**
+ * @returns false if a periodic schedule has no positive period
+ *
+ */
+
+export const isValidSchedule = (schedule: PtpSchedule): boolean =>
+	schedule.type == 'once' ||
+	(Number.isInteger(schedule.numerator) &&
+		Number.isInteger(schedule.denominator) &&
+		Number.isInteger(schedule.offset) &&
+		schedule.numerator > 0 &&
+		schedule.denominator > 0)
+
+/**
+ * @returns First scheduled time after a time, undefined once a single time has passed
+ *
+ */
+
+export const nextScheduledTime = (schedule: PtpSchedule, now: PtpTime): PtpTime | undefined => {
+	const ns = ptpTimeToNs(now)
+	if (schedule.type == 'once') return ptpTimeToNs(schedule.time) > ns ? schedule.time : undefined
+	return nsToPtpTime(boundary(schedule, boundaryIndex(schedule, ns) + 1n))
+}
+
+/**
+ * @returns Last scheduled time at or before a time, undefined before a single time
+ *
+ */
+
+export const previousScheduledTime = (schedule: PtpSchedule, now: PtpTime): PtpTime | undefined => {
+	const ns = ptpTimeToNs(now)
+	if (schedule.type == 'once') return ptpTimeToNs(schedule.time) <= ns ? schedule.time : undefined
+	return nsToPtpTime(boundary(schedule, boundaryIndex(schedule, ns)))
+}
+
+/**
+ * Parse a scheduled time
+ * @param text ISO 8601 date and time, e.g. 2026-10-19T20:00:00Z, or a daily time of day hh:mm[:ss]
+ * @param utcOffset TAI - UTC (s)
+ * @param timescale Whether the text is local, UTC or TAI (PTP) time. Date and time without a zone are read as UTC
+ *                  unless the timescale is local
+ * @param localOffset Local time - UTC (s)
+ * @returns A single time, or boundaries every day for a time of day
+ *
+ */
+
+export const parseScheduledTime = (
+	text: string,
+	utcOffset: number,
+	timescale: ScheduleTimescale = 'utc',
+	localOffset: number = 0,
+): PtpSchedule | undefined => {
+	const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(text.trim())
+	const offset = timescale == 'tai' ? 0 : timescale == 'local' && !hasZone ? utcOffset - localOffset : utcOffset
+	const timeOfDay = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(text.trim())
+	if (timeOfDay) {
+		const [hours, minutes, seconds] = timeOfDay.slice(1, 4).map((value) => Number(value ?? 0))
+		if (hours > 23 || minutes > 59 || seconds > 59) return undefined
+		return { type: 'every', numerator: 86400, denominator: 1, offset: offset + hours * 3600 + minutes * 60 + seconds }
+	}
+	const ms = Date.parse(hasZone ? text.trim() : `${text.trim()}Z`)
+	if (Number.isNaN(ms)) return undefined
+	return { type: 'once', time: [Math.floor(ms / 1000) + offset, (((ms % 1000) + 1000) % 1000) * 1_000_000] }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { ClockServo } from './servo.js'
+
+describe('ClockServo', () => {
+	it('steps the first sample', () => {
+		const servo = new ClockServo()
+		expect(servo.sample(5_000_000_000, 10)).toEqual({ step: true, frequency: -0, state: 'estimating' })
+	})
+
+	it('estimates the frequency error from the second sample', () => {
+		const servo = new ClockServo()
+		servo.sample(5_000_000_000, 10)
+		// 20 µs gained in 10 s: the local oscillator runs 2000 ppb fast
+		expect(servo.sample(20_000, 20)).toEqual({ step: true, frequency: -2000, state: 'locked' })
+		expect(servo.drift).toBe(2000)
+	})
+
+	it('slews small offsets once locked', () => {
+		const servo = new ClockServo()
+		servo.sample(5_000_000_000, 10)
+		servo.sample(20_000, 20)
+		const sample = servo.sample(1_000, 30)
+		expect(sample.step).toBe(false)
+		expect(sample.state).toBe('locked')
+		// drift += ki * 1000 / 10, frequency = -(kp * 1000 / 10 + drift)
+		expect(servo.drift).toBeCloseTo(2030)
+		expect(sample.frequency).toBeCloseTo(-2100)
+	})
+
+	it('steps offsets above the threshold and re-estimates', () => {
+		const servo = new ClockServo(100_000)
+		servo.sample(5_000_000_000, 10)
+		servo.sample(20_000, 20)
+		expect(servo.sample(200_000, 30)).toEqual({ step: true, frequency: -2000, state: 'estimating' })
+	})
+
+	it('steps when no time has passed since the previous sample', () => {
+		const servo = new ClockServo()
+		servo.sample(5_000_000_000, 10)
+		servo.sample(20_000, 20)
+		expect(servo.sample(1_000, 20).step).toBe(true)
+	})
+
+	it('limits the frequency adjustment', () => {
+		const servo = new ClockServo()
+		servo.sample(0, 10)
+		expect(servo.sample(900_000, 11).frequency).toBe(-500_000)
+	})
+
+	it('reset returns to unlocked', () => {
+		const servo = new ClockServo()
+		servo.sample(0, 10)
+		servo.sample(20_000, 20)
+		servo.reset()
+		expect(servo.state).toBe('unlocked')
+		expect(servo.frequency).toBe(0)
+		expect(servo.drift).toBe(0)
+	})
+})
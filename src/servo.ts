@@ -0,0 +1,95 @@
+// PI gains, normalised to the time between samples
+const KP = 0.7
+const KI = 0.3
+// Software clock adjustment limit (ppb)
+const MAX_FREQUENCY = 500_000
+
+export type ServoState = 'unlocked' | 'estimating' | 'locked'
+
+export interface ServoSample {
+	/** Step the clock by the full offset */
+	step: boolean
+	/** Frequency adjustment to apply until the next sample (ppb, positive speeds the clock up) */
+	frequency: number
+	state: ServoState
+}
+
+/**
+ * PI clock servo for the software clock of the client
+ *
+ * The first sample steps the clock, the second estimates the oscillator frequency error from the
+ * offset accumulated since the step and steps again. Once locked, offsets below the step threshold
+ * are slewed by adjusting the frequency, larger offsets are stepped and the frequency is re-estimated.
+ * @param stepThreshold Offsets above this are stepped (ns)
+ *
+ */
+
+export class ClockServo {
+	#state: ServoState = 'unlocked'
+	#drift: number = 0
+	#frequency: number = 0
+	#lastSample: number | undefined = undefined
+	#stepThreshold: number = 1_000_000
+
+	constructor(stepThreshold: number = 1_000_000) {
+		if (stepThreshold > 0) this.#stepThreshold = stepThreshold
+	}
+
+	/**
+	 * Feed an offset from master measurement
+	 * @param offset Offset from master (ns, positive when the local clock is ahead)
+	 * @param localTime Local monotonic time of the measurement (s)
+	 *
+	 */
+
+	public sample(offset: number, localTime: number): ServoSample {
+		const interval = this.#lastSample === undefined ? 0 : localTime - this.#lastSample
+		this.#lastSample = localTime
+		let step = true
+		if (this.#state == 'unlocked' || interval <= 0) {
+			this.#state = this.#state == 'unlocked' ? 'estimating' : this.#state
+		} else if (this.#state == 'estimating') {
+			//offset accumulated since the last step is the residual frequency error
+			this.#drift = clamp(this.#drift + offset / interval)
+			this.#state = 'locked'
+		} else if (Math.abs(offset) > this.#stepThreshold) {
+			this.#state = 'estimating'
+		} else {
+			this.#drift = clamp(this.#drift + (KI * offset) / interval)
+			step = false
+		}
+		this.#frequency = step ? -this.#drift : -clamp((KP * offset) / interval + this.#drift)
+		return { step, frequency: this.#frequency, state: this.#state }
+	}
+
+	public reset(): void {
+		this.#state = 'unlocked'
+		this.#drift = 0
+		this.#frequency = 0
+		this.#lastSample = undefined
+	}
+
+	public get state(): ServoState {
+		return this.#state
+	}
+
+	/**
+	 * @returns Frequency adjustment currently applied (ppb)
+	 *
+	 */
+
+	public get frequency(): number {
+		return this.#frequency
+	}
+
+	/**
+	 * @returns Estimated local oscillator frequency error (ppb, positive when the local clock runs fast)
+	 *
+	 */
+
+	public get drift(): number {
+		return this.#drift
+	}
+}
+
+const clamp = (ppb: number): number => Math.max(-MAX_FREQUENCY, Math.min(MAX_FREQUENCY, ppb))
@@ -0,0 +1,54 @@
+export interface StatisticsSummary {
+	current: number | undefined
+	min: number | undefined
+	max: number | undefined
+	mean: number | undefined
+	stdDev: number | undefined
+	count: number
+}
+
+/**
+ * Keeps the last n samples of a measurement and summarises them
+ * @param size Number of samples kept
+ *
+ */
+
+export class RollingStatistics {
+	#samples: number[] = []
+	#size: number = 64
+
+	constructor(size: number = 64) {
+		if (size >= 1) this.#size = Math.round(size)
+	}
+
+	public add(sample: number): void {
+		this.#samples.push(sample)
+		if (this.#samples.length > this.#size) this.#samples.shift()
+	}
+
+	public clear(): void {
+		this.#samples = []
+	}
+
+	/**
+	 * @returns current, min, max, mean and population standard deviation of the window
+	 *
+	 */
+
+	public get summary(): StatisticsSummary {
+		const count = this.#samples.length
+		if (count == 0) {
+			return { current: undefined, min: undefined, max: undefined, mean: undefined, stdDev: undefined, count }
+		}
+		const mean = this.#samples.reduce((sum, sample) => sum + sample, 0) / count
+		const variance = this.#samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / count
+		return {
+			current: this.#samples[count - 1],
+			min: Math.min(...this.#samples),
+			max: Math.max(...this.#samples),
+			mean,
+			stdDev: Math.sqrt(variance),
+			count,
+		}
+	}
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { isValidTimeZone, ptpToEpochMs, TimeFormatter, utcOffset } from './time.js'
+import type { GrandmasterDataset } from './messages.js'
+
+const makeDataset = (opts: Partial<GrandmasterDataset> = {}): GrandmasterDataset => ({
+	grandmasterIdentity: '00-00-00-00-00-00-00-01',
+	priority1: 128,
+	priority2: 128,
+	clockClass: 6,
+	clockAccuracy: 0x21,
+	offsetScaledLogVariance: 0x4e5d,
+	stepsRemoved: 0,
+	currentUtcOffset: 36,
+	currentUtcOffsetValid: true,
+	ptpTimescale: true,
+	timeSource: 0x20,
+	...opts,
+})
+
+// 2024-07-01 12:30:45.678 UTC in PTP time, with 37 s TAI - UTC
+const PTP_TIME: [number, number] = [1719837045 + 37, 678_901_234]
+
+describe('utcOffset', () => {
+	it('uses the announced offset when it is valid', () => {
+		expect(utcOffset(makeDataset())).toBe(36)
+	})
+
+	it('falls back when the offset is not valid or unknown', () => {
+		expect(utcOffset(makeDataset({ currentUtcOffsetValid: false }))).toBe(37)
+		expect(utcOffset(undefined, 35)).toBe(35)
+	})
+})
+
+describe('ptpToEpochMs', () => {
+	it('removes the UTC offset and truncates to milliseconds', () => {
+		expect(ptpToEpochMs(PTP_TIME, 37)).toBe(1719837045678)
+	})
+})
+
+describe('isValidTimeZone', () => {
+	it.each([
+		['UTC', true],
+		['Europe/London', true],
+		['Not/AZone', false],
+	])('%s is %s', (timeZone, valid) => {
+		expect(isValidTimeZone(timeZone)).toBe(valid)
+	})
+})
+
+describe('TimeFormatter', () => {
+	it('formats UTC', () => {
+		expect(new TimeFormatter().format(PTP_TIME, 37)).toEqual({
+			utc: '2024-07-01T12:30:45.678Z',
+			local: '2024-07-01 12:30:45.678',
+			date: '2024-07-01',
+			timeOfDay: '12:30:45',
+			epochMs: 1719837045678,
+		})
+	})
+
+	it('formats local time in the time zone, including daylight saving', () => {
+		const formatted = new TimeFormatter('America/New_York').format(PTP_TIME, 37)
+		expect(formatted.local).toBe('2024-07-01 08:30:45.678')
+		expect(formatted.utc).toBe('2024-07-01T12:30:45.678Z')
+	})
+
+	it('reports the offset of the time zone, including daylight saving', () => {
+		expect(new TimeFormatter('America/New_York').offset(Date.UTC(2024, 6, 1, 12))).toBe(-4 * 3600)
+		expect(new TimeFormatter('America/New_York').offset(Date.UTC(2024, 0, 1, 12))).toBe(-5 * 3600)
+		expect(new TimeFormatter('Asia/Kolkata').offset(Date.UTC(2024, 0, 1, 12, 0, 0, 500))).toBe(5.5 * 3600)
+		expect(new TimeFormatter().offset(0)).toBe(0)
+	})
+
+	it('changes date across midnight', () => {
+		const formatted = new TimeFormatter('Asia/Tokyo').format([PTP_TIME[0] + 12 * 3600, 0], 37)
+		expect(formatted.date).toBe('2024-07-02')
+		expect(formatted.timeOfDay).toBe('09:30:45')
+	})
+})
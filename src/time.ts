@@ -0,0 +1,113 @@
+import type { PtpTime } from './ptpv2.js'
+import type { GrandmasterDataset } from './messages.js'
+
+// TAI - UTC (s) since 2017-01-01, used while the grandmaster does not announce a valid offset
+export const DEFAULT_UTC_OFFSET = 37
+
+export interface FormattedTime {
+	/** ISO 8601 UTC */
+	utc: string
+	/** YYYY-MM-DD hh:mm:ss.sss in the configured time zone */
+	local: string
+	/** YYYY-MM-DD in the configured time zone */
+	date: string
+	/** hh:mm:ss in the configured time zone */
+	timeOfDay: string
+	/** Milliseconds since the Unix epoch (UTC) */
+	epochMs: number
+}
+
+/**
+ * @returns TAI - UTC announced by the grandmaster, or the fallback if it is not flagged valid
+ *
+ */
+
+export const utcOffset = (
+	grandmaster: GrandmasterDataset | undefined,
+	fallback: number = DEFAULT_UTC_OFFSET,
+): number => (grandmaster?.currentUtcOffsetValid ? grandmaster.currentUtcOffset : fallback)
+
+/**
+ * @returns Milliseconds since the Unix epoch of a PTP (TAI) time
+ *
+ */
+
+export const ptpToEpochMs = (ptpTime: PtpTime, offset: number): number =>
+	(ptpTime[0] - offset) * 1000 + Math.floor(ptpTime[1] / 1_000_000)
+
+/**
+ * @returns true if the time zone is a valid IANA time zone name
+ *
+ */
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone })
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Converts PTP time to UTC and a local time zone
+ * @param timeZone IANA time zone, e.g. 'Europe/London'. Must be valid, see isValidTimeZone
+ *
+ */
+
+export class TimeFormatter {
+	#parts: Intl.DateTimeFormat
+
+	constructor(timeZone: string = 'UTC') {
+		this.#parts = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			second: '2-digit',
+			fractionalSecondDigits: 3,
+		})
+	}
+
+	/**
+	 * @param ptpTime PTP (TAI) time
+	 * @param offset TAI - UTC (s)
+	 *
+	 */
+
+	public format(ptpTime: PtpTime, offset: number): FormattedTime {
+		const epochMs = ptpToEpochMs(ptpTime, offset)
+		const parts = Object.fromEntries(this.#parts.formatToParts(epochMs).map(({ type, value }) => [type, value]))
+		const date = `${parts.year}-${parts.month}-${parts.day}`
+		const timeOfDay = `${parts.hour}:${parts.minute}:${parts.second}`
+		return {
+			utc: new Date(epochMs).toISOString(),
+			local: `${date} ${timeOfDay}.${parts.fractionalSecond}`,
+			date,
+			timeOfDay,
+			epochMs,
+		}
+	}
+
+	/**
+	 * @param epochMs Milliseconds since the Unix epoch
+	 * @returns Local time - UTC (s) of the time zone at a time
+	 *
+	 */
+
+	public offset(epochMs: number): number {
+		const parts = Object.fromEntries(this.#parts.formatToParts(epochMs).map(({ type, value }) => [type, value]))
+		const local = Date.UTC(
+			Number(parts.year),
+			Number(parts.month) - 1,
+			Number(parts.day),
+			Number(parts.hour),
+			Number(parts.minute),
+			Number(parts.second),
+		)
+		return Math.round((local - Math.floor(epochMs / 1000) * 1000) / 1000)
+	}
+}
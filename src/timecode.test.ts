@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { ptpToTimecode, TimecodeRates } from './timecode.js'
+
+// 2024-01-01 00:00:00 UTC in PTP time, with 37 s TAI - UTC
+const MIDNIGHT = 1704067200 + 37
+
+describe('ptpToTimecode', () => {
+	it('jams to 00:00:00:00 at local midnight', () => {
+		expect(ptpToTimecode([MIDNIGHT, 0], TimecodeRates['25'], 37, 0).timecode).toBe('00:00:00:00')
+	})
+
+	it('counts frames at integer rates', () => {
+		const tc = ptpToTimecode([MIDNIGHT + 3723, 480_000_000], TimecodeRates['25'], 37, 0)
+		expect(tc).toEqual({ hours: 1, minutes: 2, seconds: 3, frames: 12, dropFrame: false, timecode: '01:02:03:12' })
+	})
+
+	it('applies the local offset', () => {
+		expect(ptpToTimecode([MIDNIGHT, 0], TimecodeRates['50'], 37, 3600).timecode).toBe('01:00:00:00')
+		expect(ptpToTimecode([MIDNIGHT, 0], TimecodeRates['50'], 37, -3600).timecode).toBe('23:00:00:00')
+	})
+
+	it('starts non-integer rates at the first epoch aligned frame after midnight', () => {
+		const rate = TimecodeRates['29.97']
+		// frame boundaries are multiples of 1001/30000 s from the PTP epoch
+		const jam = Math.ceil((MIDNIGHT * 30000) / 1001)
+		const jamNs = Math.round(((jam * 1001) / 30000 - MIDNIGHT) * 1e9)
+		expect(ptpToTimecode([MIDNIGHT, jamNs - 1000], rate, 37, 0).hours).toBe(23)
+		expect(ptpToTimecode([MIDNIGHT, jamNs + 1000], rate, 37, 0).timecode).toBe('00:00:00:00')
+	})
+
+	it('runs behind real time at 29.97 NDF', () => {
+		const rate = TimecodeRates['29.97']
+		// the jam frame starts 5.47 ms after midnight, 60.04 s later 1799 frames of 1001/30000 s have passed
+		const tc = ptpToTimecode([MIDNIGHT + 60, 40_000_000], rate, 37, 0)
+		expect(tc.timecode).toBe('00:00:59:29')
+	})
+
+	it.each([
+		[1799, '00:00:59;29'],
+		[1800, '00:01:00;02'],
+		[17981, '00:09:59;29'],
+		[17982, '00:10:00;00'],
+		[17982 + 1800, '00:11:00;02'],
+	])('drops frame numbers at 29.97 DF after %i frames', (frames, timecode) => {
+		const rate = TimecodeRates['29.97DF']
+		const jam = Math.ceil((MIDNIGHT * 30000) / 1001)
+		// middle of the frame to stay clear of rounding at the boundary
+		const ns = (jam + frames + 0.5) * 1001 * (1e9 / 30000) - MIDNIGHT * 1e9
+		const tc = ptpToTimecode([MIDNIGHT + Math.floor(ns / 1e9), Math.round(ns % 1e9)], rate, 37, 0)
+		expect(tc.timecode).toBe(timecode)
+		expect(tc.dropFrame).toBe(true)
+	})
+
+	it('drops four frame numbers a minute at 59.94 DF', () => {
+		const rate = TimecodeRates['59.94DF']
+		const jam = Math.ceil((MIDNIGHT * 60000) / 1001)
+		const ns = (jam + 3600 + 0.5) * 1001 * (1e9 / 60000) - MIDNIGHT * 1e9
+		expect(ptpToTimecode([MIDNIGHT + Math.floor(ns / 1e9), Math.round(ns % 1e9)], rate, 37, 0).timecode).toBe(
+			'00:01:00;04',
+		)
+	})
+})
@@ -0,0 +1,110 @@
+import type { PtpTime } from './ptpv2.js'
+
+export type TimecodeRateId = '23.98' | '24' | '25' | '29.97' | '29.97DF' | '30' | '50' | '59.94' | '59.94DF' | '60'
+
+export interface TimecodeRate {
+	name: string
+	numerator: number
+	denominator: number
+	dropFrame: boolean
+}
+
+export const TimecodeRates: Record<TimecodeRateId, TimecodeRate> = {
+	'23.98': { name: '23.98', numerator: 24000, denominator: 1001, dropFrame: false },
+	'24': { name: '24', numerator: 24, denominator: 1, dropFrame: false },
+	'25': { name: '25', numerator: 25, denominator: 1, dropFrame: false },
+	'29.97': { name: '29.97 NDF', numerator: 30000, denominator: 1001, dropFrame: false },
+	'29.97DF': { name: '29.97 DF', numerator: 30000, denominator: 1001, dropFrame: true },
+	'30': { name: '30', numerator: 30, denominator: 1, dropFrame: false },
+	'50': { name: '50', numerator: 50, denominator: 1, dropFrame: false },
+	'59.94': { name: '59.94 NDF', numerator: 60000, denominator: 1001, dropFrame: false },
+	'59.94DF': { name: '59.94 DF', numerator: 60000, denominator: 1001, dropFrame: true },
+	'60': { name: '60', numerator: 60, denominator: 1, dropFrame: false },
+}
+
+export interface Timecode {
+	hours: number
+	minutes: number
+	seconds: number
+	frames: number
+	dropFrame: boolean
+	/** HH:MM:SS:FF, or HH:MM:SS;FF for drop-frame */
+	timecode: string
+}
+
+const NS_PER_SECOND = 1_000_000_000n
+const SECONDS_PER_DAY = 86400
+
+/**
+ * Index of the frame containing a PTP time. Frame boundaries are aligned to the PTP epoch (SMPTE ST 2059-1 §5)
+ *
+ */
+
+const frameIndex = (ptpSeconds: number, ptpNanoseconds: number, rate: TimecodeRate): bigint =>
+	((BigInt(ptpSeconds) * NS_PER_SECOND + BigInt(ptpNanoseconds)) * BigInt(rate.numerator)) /
+	(BigInt(rate.denominator) * NS_PER_SECOND)
+
+/**
+ * Index of the first frame starting at or after a whole PTP second
+ *
+ */
+
+const firstFrameAfter = (ptpSeconds: number, rate: TimecodeRate): bigint =>
+	(BigInt(ptpSeconds) * BigInt(rate.numerator) + BigInt(rate.denominator) - 1n) / BigInt(rate.denominator)
+
+/**
+ * Label a frame count with drop-frame numbering, skipping frames 0 and 1 (0-3 at 59.94) of each minute
+ * except every tenth minute (SMPTE ST 12-1)
+ *
+ */
+
+const dropFrameCount = (frames: number, nominalRate: number): number => {
+	const drop = nominalRate / 15
+	const framesPerMinute = nominalRate * 60 - drop
+	const framesPer10Minutes = nominalRate * 600 - 9 * drop
+	const tens = Math.floor(frames / framesPer10Minutes)
+	const remainder = frames % framesPer10Minutes
+	const minutes = remainder > drop ? Math.floor((remainder - drop) / framesPerMinute) : 0
+	return frames + 9 * drop * tens + drop * minutes
+}
+
+/**
+ * Time address of a PTP time. The address is jammed at local midnight and counts epoch aligned frames
+ * from there, so non-integer rates count from the first frame boundary after midnight.
+ * @param ptpTime PTP (TAI) time
+ * @param rate Frame rate
+ * @param utcOffset TAI - UTC (s)
+ * @param localOffset Local time - UTC (s)
+ *
+ */
+
+export const ptpToTimecode = (
+	ptpTime: PtpTime,
+	rate: TimecodeRate,
+	utcOffset: number,
+	localOffset: number,
+): Timecode => {
+	const [ptpSeconds, ptpNanoseconds] = ptpTime
+	const localSeconds = ptpSeconds - utcOffset + localOffset
+	const midnight = localSeconds - (((localSeconds % SECONDS_PER_DAY) + SECONDS_PER_DAY) % SECONDS_PER_DAY)
+	const frame = frameIndex(ptpSeconds, ptpNanoseconds, rate)
+	let jamFrame = firstFrameAfter(midnight + utcOffset - localOffset, rate)
+	//frames that started before midnight still belong to the previous day
+	if (frame < jamFrame) jamFrame = firstFrameAfter(midnight - SECONDS_PER_DAY + utcOffset - localOffset, rate)
+	const nominalRate = Math.round(rate.numerator / rate.denominator)
+	let frames = Number(frame - jamFrame)
+	if (rate.dropFrame) frames = dropFrameCount(frames, nominalRate)
+	const totalSeconds = Math.floor(frames / nominalRate)
+	const timecode = {
+		hours: Math.floor(totalSeconds / 3600) % 24,
+		minutes: Math.floor(totalSeconds / 60) % 60,
+		seconds: totalSeconds % 60,
+		frames: frames % nominalRate,
+	}
+	const pad = (value: number): string => value.toString().padStart(2, '0')
+	return {
+		...timecode,
+		dropFrame: rate.dropFrame,
+		timecode: `${pad(timecode.hours)}:${pad(timecode.minutes)}:${pad(timecode.seconds)}${rate.dropFrame ? ';' : ':'}${pad(timecode.frames)}`,
+	}
+}
@@ -1,11 +1,166 @@
+import type { CompanionVariableDefinition } from '@companion-module/base'
 import type { ModuleInstance } from './main.js'
+import { GetMonitoredDomains } from './config.js'
+import { MonitoredMessages } from './monitor.js'
+import { ManagementId } from './management.js'
+import { HISTORY_VARIABLES } from './history.js'
 
-export function UpdateVariableDefinitions(self: ModuleInstance): void {
-	self.setVariableDefinitions([
+/**
+ * Variables tracked for each domain in multi-domain mode, suffixed with _d<domain>
+ *
+ */
+
+const domainVariableDefinitions = (domain: number): CompanionVariableDefinition[] => [
+	{ variableId: `ptpSynced_d${domain}`, name: `Domain ${domain}: PTP Synced` },
+	{ variableId: `ptpMaster_d${domain}`, name: `Domain ${domain}: PTP Master (Clock Identity)` },
+	{ variableId: `ptpMasterAddress_d${domain}`, name: `Domain ${domain}: PTP Master (Address)` },
+	{ variableId: `ptpGmIdentity_d${domain}`, name: `Domain ${domain}: PTP Grandmaster (Clock Identity)` },
+	{ variableId: `ptpTimeS_d${domain}`, name: `Domain ${domain}: PTP Time (s)` },
+	{ variableId: `ptpTimeNS_d${domain}`, name: `Domain ${domain}: PTP Time (ns)` },
+	{ variableId: `lastSync_d${domain}`, name: `Domain ${domain}: Last Sync Timestamp` },
+]
+
+const missedDescription = {
+	Sync: 'Sync Sequence Gaps',
+	Follow_Up: 'Missing Follow_Ups',
+	Announce: 'Announce Receipt Timeouts',
+	Delay_Resp: 'Unanswered Delay_Reqs',
+}
+
+const messageVariableDefinitions: CompanionVariableDefinition[] = MonitoredMessages.flatMap((type) => [
+	{ variableId: `ptpRate${type.replace('_', '')}`, name: `${type} Rate (msg/s)` },
+	{ variableId: `ptpExpectedRate${type.replace('_', '')}`, name: `${type} Advertised Rate (msg/s)` },
+	{ variableId: `ptpMissed${type.replace('_', '')}`, name: missedDescription[type] },
+])
+
+const managementVariableDefinitions: CompanionVariableDefinition[] = Object.keys(ManagementId)
+	.filter((name) => name != 'UserDescription')
+	.map((name) => ({
+		variableId: `ptpMgmt${name}`,
+		name: `Management ${name.replace(/([a-z])([A-Z])/g, '$1 $2')} (JSON)`,
+	}))
+
+const historyVariableDefinitions: CompanionVariableDefinition[] = [
+	...Array.from({ length: HISTORY_VARIABLES }, (_, i) => ({
+		variableId: `ptpHistory${i + 1}`,
+		name: i == 0 ? 'Event History: Latest Event' : `Event History: Event ${i + 1} (newest first)`,
+	})),
+	{ variableId: 'ptpHistoryEvents', name: 'Event History: Events Kept' },
+	{ variableId: 'ptpHistorySince', name: 'Event History: Counting Since' },
+	{ variableId: 'ptpHistoryMasterChanges', name: 'Event History: Master Changes' },
+	{ variableId: 'ptpHistorySyncLosses', name: 'Event History: Sync Losses' },
+	{ variableId: 'ptpHistoryConflicts', name: 'Event History: Master Conflicts' },
+	{ variableId: 'ptpHistoryErrors', name: 'Event History: Errors' },
+	{ variableId: 'ptpHistoryCloses', name: 'Event History: Socket Closes' },
+	{ variableId: 'ptpHistoryExport', name: 'Event History: Last Export File' },
+]
+
+const timecodeVariableDefinitions: CompanionVariableDefinition[] = [
+	{ variableId: 'timecode', name: 'Timecode' },
+	{ variableId: 'hh', name: 'Timecode Hours' },
+	{ variableId: 'mm', name: 'Timecode Minutes' },
+	{ variableId: 'ss', name: 'Timecode Seconds' },
+	{ variableId: 'frames', name: 'Timecode Frames' },
+]
+
+/**
+ * Variable definitions, shared with the presets
+ *
+ */
+
+export function GetVariableDefinitions(self: ModuleInstance): CompanionVariableDefinition[] {
+	const domains = self.config?.multiDomain ? GetMonitoredDomains(self.config) : []
+	return [
 		{ variableId: 'ptpTimeS', name: 'PTP Time (s)' },
 		{ variableId: 'ptpTimeNS', name: 'PTP Time (ns)' },
 		{ variableId: 'ptpMaster', name: 'PTP Master (Clock Identity)' },
 		{ variableId: 'ptpMasterAddress', name: 'PTP Master (Address)' },
+		{ variableId: 'ptpMasterConflict', name: 'Competing Masters (Identity and Address)' },
 		{ variableId: 'lastSync', name: 'Last Sync Timestamp' },
-	])
+		{ variableId: 'ptpLastSync', name: 'Last Sync PTP Time (UTC)' },
+		{ variableId: 'ptpTimeUtc', name: 'PTP Time (UTC)' },
+		{ variableId: 'ptpTimeLocal', name: 'PTP Time (Local)' },
+		{ variableId: 'ptpDate', name: 'PTP Date (Local)' },
+		{ variableId: 'ptpTimeOfDay', name: 'PTP Time of Day (Local)' },
+		{ variableId: 'ptpEpochMs', name: 'PTP Time (Unix ms)' },
+		{ variableId: 'ptpUtcOffset', name: 'UTC Offset in Use (s)' },
+		{ variableId: 'ptpMeanLinkDelay', name: 'Mean Link Delay (ns, P2P only)' },
+		{ variableId: 'ptpClientIdentity', name: 'Client Port Identity' },
+		{ variableId: 'ptpPaused', name: 'Monitoring Paused' },
+		{ variableId: 'ptpServoState', name: 'Servo State' },
+		{ variableId: 'ptpFrequency', name: 'Servo Frequency Adjustment (ppb)' },
+		{ variableId: 'ptpDrift', name: 'Estimated Local Oscillator Error (ppb)' },
+		{ variableId: 'ptpOffset', name: 'Offset From Master (ns)' },
+		{ variableId: 'ptpOffsetMin', name: 'Offset From Master Min (ns)' },
+		{ variableId: 'ptpOffsetMax', name: 'Offset From Master Max (ns)' },
+		{ variableId: 'ptpOffsetMean', name: 'Offset From Master Mean (ns)' },
+		{ variableId: 'ptpOffsetStdDev', name: 'Offset From Master Std Dev (ns)' },
+		{ variableId: 'ptpPathDelay', name: 'Mean Path Delay (ns)' },
+		{ variableId: 'ptpPathDelayMin', name: 'Mean Path Delay Min (ns)' },
+		{ variableId: 'ptpPathDelayMax', name: 'Mean Path Delay Max (ns)' },
+		{ variableId: 'ptpPathDelayMean', name: 'Mean Path Delay Mean (ns)' },
+		{ variableId: 'ptpPathDelayStdDev', name: 'Mean Path Delay Std Dev (ns)' },
+		{ variableId: 'ptpUnicastGrants', name: 'Unicast Grant Status' },
+		{ variableId: 'ptpUnicastGranted', name: 'Unicast Grants Active' },
+		{ variableId: 'ptpUnicastDenied', name: 'Unicast Requests Denied' },
+		{ variableId: 'ptpGmIdentity', name: 'PTP Grandmaster (Clock Identity)' },
+		{ variableId: 'ptpGmPriority1', name: 'PTP Grandmaster Priority 1' },
+		{ variableId: 'ptpGmPriority2', name: 'PTP Grandmaster Priority 2' },
+		{ variableId: 'ptpGmClockClass', name: 'PTP Grandmaster Clock Class' },
+		{ variableId: 'ptpGmClockAccuracy', name: 'PTP Grandmaster Clock Accuracy' },
+		{ variableId: 'ptpGmVariance', name: 'PTP Grandmaster Offset Scaled Log Variance' },
+		{ variableId: 'ptpGmStepsRemoved', name: 'PTP Grandmaster Steps Removed' },
+		{ variableId: 'ptpGmUtcOffset', name: 'PTP Grandmaster Current UTC Offset (s)' },
+		{ variableId: 'ptpGmTimeSource', name: 'PTP Grandmaster Time Source' },
+		{ variableId: 'ptpProfile', name: 'PTP Profile' },
+		{ variableId: 'ptpProfileCompliant', name: 'PTP Profile Compliant' },
+		{ variableId: 'ptpProfileViolations', name: 'PTP Profile Violations' },
+		{ variableId: 'ptpLogSyncInterval', name: 'Master logSyncInterval' },
+		{ variableId: 'ptpLogAnnounceInterval', name: 'Master logAnnounceInterval' },
+		{ variableId: 'ptpLogMinDelayReqInterval', name: 'Master logMinDelayReqInterval' },
+		...messageVariableDefinitions,
+		{ variableId: 'ptpIgnoredSync', name: 'Sync Ignored (not from the selected master)' },
+		{ variableId: 'ptpIgnoredFollowUp', name: 'Follow_Up Ignored (not from the selected master)' },
+		{ variableId: 'ptpIgnoredDelayResp', name: 'Delay_Resp Ignored (not from the selected master)' },
+		{ variableId: 'ptpSmpteFrameRate', name: 'SMPTE Default System Frame Rate (fps)' },
+		{ variableId: 'ptpSmpteDropFrame', name: 'SMPTE Drop Frame' },
+		{ variableId: 'ptpSmpteColorFrame', name: 'SMPTE Color Frame Identification' },
+		{ variableId: 'ptpSmpteLockingStatus', name: 'SMPTE Master Locking Status' },
+		{ variableId: 'ptpSmpteLocalOffset', name: 'SMPTE Current Local Offset (s)' },
+		{ variableId: 'ptpSmpteDaylightSaving', name: 'SMPTE Daylight Saving' },
+		{ variableId: 'ptpSmpteNextJump', name: 'SMPTE Time of Next Jump (local)' },
+		{ variableId: 'ptpSmpteJumpSeconds', name: 'SMPTE Jump Seconds' },
+		{ variableId: 'ptpSmpteNextJam', name: 'SMPTE Time of Next Jam (local)' },
+		{ variableId: 'ptpSmptePreviousJam', name: 'SMPTE Time of Previous Jam (local)' },
+		{ variableId: 'ptpSmpteLeapSecondJump', name: 'SMPTE Leap Second Jump' },
+		{ variableId: 'ptpBmcaBest', name: 'BMCA Best Master (Port Identity)' },
+		{ variableId: 'ptpBmcaBestAddress', name: 'BMCA Best Master (Address)' },
+		{ variableId: 'ptpBmcaBestGrandmaster', name: 'BMCA Best Master Grandmaster (Clock Identity)' },
+		{ variableId: 'ptpBmcaReason', name: 'BMCA Deciding Attribute' },
+		{ variableId: 'ptpBmcaForeignMasters', name: 'BMCA Qualified Foreign Masters' },
+		{ variableId: 'ptpForeignMasterTable', name: 'Foreign Master Table (JSON)' },
+		{ variableId: 'ptpForeignClocks', name: 'PTP Clocks Heard' },
+		{ variableId: 'ptpForeignMasters', name: 'PTP Clocks Sending Sync or Announce' },
+		{ variableId: 'ptpForeignDomains', name: 'PTP Domains Heard' },
+		{ variableId: 'ptpMgmtSource', name: 'Management Response (Port Identity)' },
+		{ variableId: 'ptpMgmtAddress', name: 'Management Response (Address)' },
+		{ variableId: 'ptpMgmtError', name: 'Management Response Error' },
+		...managementVariableDefinitions,
+		{ variableId: 'ptpMgmtUserDescription', name: 'Management User Description' },
+		{ variableId: 'ptpMgmtProductDescription', name: 'Management Product Description' },
+		{ variableId: 'ptpMgmtPortState', name: 'Management Port State' },
+		{ variableId: 'ptpScheduleNext', name: 'Next Scheduled Time (UTC)' },
+		{ variableId: 'ptpScheduleSecondsUntil', name: 'Seconds Until Next Scheduled Time' },
+		{ variableId: 'ptpSchedules', name: 'Scheduled Time Feedbacks' },
+		{ variableId: 'ptpRogueMasters', name: 'Rogue Masters (Clock Identity, Address and Domain)' },
+		{ variableId: 'ptpRogueMasterCount', name: 'Rogue Masters' },
+		{ variableId: 'ptpKnownClocks', name: 'Known Clocks (Domain:Clock Identity)' },
+		...historyVariableDefinitions,
+		...domains.flatMap(domainVariableDefinitions),
+		...(self.config?.timecode ? timecodeVariableDefinitions : []),
+	]
+}
+
+export function UpdateVariableDefinitions(self: ModuleInstance): void {
+	self.setVariableDefinitions(GetVariableDefinitions(self))
 }